@@ -0,0 +1,80 @@
+import * as vscode from 'vscode';
+import { readFile } from './fileReader';
+
+export interface IAngularProject {
+  name: string;
+  /**
+   * Project root, as given by `root` in angular.json.
+   */
+  root: vscode.Uri;
+  /**
+   * Karma config set on the project's test target, if any.
+   */
+  karmaConfig?: vscode.Uri;
+  /**
+   * Builder of the project's test target, e.g. `@angular-builders/jest:run`.
+   */
+  builder?: string;
+}
+
+interface IAngularJsonProject {
+  root?: string;
+  architect?: {
+    test?: { builder?: string; options?: { karmaConfig?: string } };
+  };
+}
+
+/**
+ * Reads the projects in the folder's angular.json that have a test target.
+ */
+export async function readAngularProjects(
+  folder: vscode.WorkspaceFolder
+): Promise<IAngularProject[]> {
+  const content = await readFile(vscode.Uri.joinPath(folder.uri, 'angular.json'));
+  if (!content) {
+    return [];
+  }
+
+  let projects: Record<string, IAngularJsonProject>;
+  try {
+    projects = JSON.parse(content).projects ?? {};
+  } catch (e) {
+    console.warn(`Error parsing angular.json in ${folder.uri.fsPath}`, e);
+    return [];
+  }
+
+  const result: IAngularProject[] = [];
+  for (const [name, project] of Object.entries(projects)) {
+    const test = project.architect?.test;
+    if (!test) {
+      continue;
+    }
+
+    const karmaConfig = test.options?.karmaConfig;
+    result.push({
+      name,
+      root: vscode.Uri.joinPath(folder.uri, project.root ?? ''),
+      karmaConfig: karmaConfig ? vscode.Uri.joinPath(folder.uri, karmaConfig) : undefined,
+      builder: test.builder,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Finds the project that owns the file, which is the one with the most
+ * specific root containing it. An application at the workspace root
+ * (`root: ""`) owns everything not claimed by another project.
+ */
+export function findProjectForFile(projects: readonly IAngularProject[], uri: vscode.Uri) {
+  let best: IAngularProject | undefined;
+  for (const project of projects) {
+    const root = project.root.path.endsWith('/') ? project.root.path : `${project.root.path}/`;
+    if (uri.path.startsWith(root) && (!best || project.root.path.length > best.root.path.length)) {
+      best = project;
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,160 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+const diagnosticCollection = vscode.languages.createDiagnosticCollection('selfhostTestProviderBuild');
+
+export interface ICompileError {
+  /**
+   * File the error is in, as printed by the compiler.
+   */
+  file: string;
+  /**
+   * 1-based line and column.
+   */
+  line: number;
+  column: number;
+  message: string;
+  code?: string;
+  source: 'ts' | 'webpack' | 'esbuild';
+}
+
+// `Error: src/app/a.ts:12:5 - error TS2322: ...`, as the Angular CLI prints them
+const tsRe = /^(?:Error: |ERROR in )?(\S+):(\d+):(\d+) - error (TS\d+): (.*)$/;
+// `src/app/a.ts(12,5): error TS2322: ...`, as tsc prints them
+const tscRe = /^(\S+)\((\d+),(\d+)\): error (TS\d+): (.*)$/;
+// `ERROR in ./src/app/a.ts 12:5-20`, followed by the message
+const webpackRe = /^ERROR in (\S+) (\d+):(\d+)(?:-\d+)?$/;
+// `✘ [ERROR] TS2322: ... [plugin angular-compiler]`, followed by the location
+const esbuildRe = /^✘ \[ERROR\] (?:(TS\d+): )?(.*?)(?: \[plugin [^\]]+\])?$/;
+const esbuildLocationRe = /^\s+(\S+):(\d+):(\d+):$/;
+
+/**
+ * Picks the TypeScript, webpack and esbuild errors out of the test process'
+ * output, which is fed to it one line at a time.
+ */
+export class CompileErrorParser {
+  private pending?: { source: 'webpack' | 'esbuild'; error: Partial<ICompileError> };
+
+  /**
+   * Gets the error the line completes, if any.
+   */
+  public push(line: string): ICompileError | undefined {
+    const ts = tsRe.exec(line) ?? tscRe.exec(line);
+    if (ts) {
+      this.pending = undefined;
+      const [, file, l, c, code, message] = ts;
+      return { file, line: Number(l), column: Number(c), code, message, source: 'ts' };
+    }
+
+    const webpack = webpackRe.exec(line);
+    if (webpack) {
+      const [, file, l, c] = webpack;
+      this.pending = { source: 'webpack', error: { file, line: Number(l), column: Number(c) + 1 } };
+      return undefined;
+    }
+
+    const esbuild = esbuildRe.exec(line);
+    if (esbuild) {
+      const [, code, message] = esbuild;
+      this.pending = { source: 'esbuild', error: { code, message } };
+      return undefined;
+    }
+
+    if (!this.pending || !line.trim()) {
+      return undefined;
+    }
+
+    const { source, error } = this.pending;
+    if (source === 'webpack') {
+      this.pending = undefined;
+      return { ...(error as ICompileError), message: line.trim(), source };
+    }
+
+    const location = esbuildLocationRe.exec(line);
+    if (location) {
+      this.pending = undefined;
+      const [, file, l, c] = location;
+      // esbuild columns are 0-based
+      return { ...(error as ICompileError), file, line: Number(l), column: Number(c) + 1, source };
+    }
+
+    return undefined;
+  }
+}
+
+/**
+ * Gets the URI of the file an error is in. Compilers print paths relative
+ * to the folder they run in, which is the workspace folder.
+ */
+export const getCompileErrorUri = (error: ICompileError, folder: vscode.WorkspaceFolder) => {
+  const file = error.file.replace(/^(\.\/)+/, '');
+  return path.isAbsolute(file) ? vscode.Uri.file(file) : vscode.Uri.joinPath(folder.uri, file);
+};
+
+export const getCompileErrorRange = (error: ICompileError) => {
+  const position = new vscode.Position(Math.max(error.line - 1, 0), Math.max(error.column - 1, 0));
+  return new vscode.Range(position, position.translate(0, 1));
+};
+
+type DiagnosticsByFile = Map<string, { uri: vscode.Uri; diagnostics: vscode.Diagnostic[] }>;
+
+/**
+ * Diagnostics of the last build of each project, keyed by workspace folder
+ * URI and project name. Projects in a folder are built separately, so one
+ * building fine doesn't clear the errors of another.
+ */
+const builds = new Map<string, DiagnosticsByFile>();
+
+const getBuildKey = (folder: vscode.WorkspaceFolder, project: string | undefined) =>
+  `${folder.uri}#${project ?? ''}`;
+
+/**
+ * Shows the errors in the Problems view, replacing those of the project's
+ * previous build.
+ */
+export function publishCompileErrors(
+  folder: vscode.WorkspaceFolder,
+  project: string | undefined,
+  errors: readonly ICompileError[]
+) {
+  const byFile: DiagnosticsByFile = new Map();
+  for (const error of errors) {
+    const uri = getCompileErrorUri(error, folder);
+    const diagnostic = new vscode.Diagnostic(
+      getCompileErrorRange(error),
+      error.message,
+      vscode.DiagnosticSeverity.Error
+    );
+    diagnostic.source = error.source;
+    diagnostic.code = error.code;
+
+    const entry = byFile.get(uri.toString()) ?? { uri, diagnostics: [] };
+    entry.diagnostics.push(diagnostic);
+    byFile.set(uri.toString(), entry);
+  }
+
+  replaceBuild(getBuildKey(folder, project), byFile);
+}
+
+export function clearCompileErrors(folder: vscode.WorkspaceFolder, project: string | undefined) {
+  replaceBuild(getBuildKey(folder, project), undefined);
+}
+
+const replaceBuild = (key: string, byFile: DiagnosticsByFile | undefined) => {
+  const changed = new Map<string, vscode.Uri>();
+  for (const { uri } of [...(builds.get(key)?.values() ?? []), ...(byFile?.values() ?? [])]) {
+    changed.set(uri.toString(), uri);
+  }
+
+  if (byFile) {
+    builds.set(key, byFile);
+  } else {
+    builds.delete(key);
+  }
+
+  // a file may have errors from the builds of several projects
+  for (const [file, uri] of changed) {
+    const diagnostics = [...builds.values()].flatMap(b => b.get(file)?.diagnostics ?? []);
+    diagnosticCollection.set(uri, diagnostics.length ? diagnostics : undefined);
+  }
+};
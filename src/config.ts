@@ -0,0 +1,129 @@
+import * as vscode from 'vscode';
+
+const SECTION = 'selfhost-test-provider';
+
+export interface ISettings {
+  /**
+   * Command used to run tests, or undefined to use the runner's default.
+   */
+  command: string | undefined;
+  /**
+   * Globs, relative to the workspace folder, matching test files.
+   */
+  testFiles: string[];
+  /**
+   * Path of the karma config, relative to the workspace folder.
+   */
+  karmaConfig: string | undefined;
+  /**
+   * Arguments added to every test run.
+   */
+  extraArgs: string[];
+  /**
+   * Environment variables set on the test process.
+   */
+  env: Record<string, string>;
+  /**
+   * Karma launcher used unless a profile picks another.
+   */
+  browser: string;
+  /**
+   * Delay before a continuous run starts after a file changes, in milliseconds.
+   */
+  continuousDebounce: number;
+  /**
+   * Whether Karma is kept running between runs, see `KarmaServer`.
+   */
+  persistentServer: boolean;
+}
+
+/**
+ * Reads the extension's settings for the workspace folder. Settings are read
+ * each time they are used, so that changes apply without reloading.
+ */
+export const getSettings = (folder: vscode.WorkspaceFolder | undefined): ISettings => {
+  const config = vscode.workspace.getConfiguration(SECTION, folder);
+  return {
+    command: config.get<string>('command') || undefined,
+    testFiles: config.get<string[]>('testFiles', []),
+    karmaConfig: config.get<string>('karmaConfig') || undefined,
+    extraArgs: config.get<string[]>('extraArgs', []),
+    env: config.get<Record<string, string>>('env', {}),
+    browser: config.get<string>('browser') || 'ChromeHeadless',
+    continuousDebounce: config.get<number>('continuousDebounce', 1000),
+    persistentServer: config.get<boolean>('persistentServer', false),
+  };
+};
+
+/**
+ * Gets whether the configuration change affects any of the given settings in
+ * the workspace folder.
+ */
+export const affectsSettings = (
+  e: vscode.ConfigurationChangeEvent,
+  folder: vscode.WorkspaceFolder,
+  ...keys: (keyof ISettings)[]
+) => keys.some(key => e.affectsConfiguration(`${SECTION}.${key}`, folder));
+
+/**
+ * Gets whether the file matches one of the test file globs of its folder.
+ */
+export const isTestFile = (folder: vscode.WorkspaceFolder, uri: vscode.Uri) => {
+  const folderPath = folder.uri.path.endsWith('/') ? folder.uri.path : `${folder.uri.path}/`;
+  if (!uri.path.startsWith(folderPath) || uri.path.includes('/node_modules/')) {
+    return false;
+  }
+
+  const relative = uri.path.slice(folderPath.length);
+  return getSettings(folder).testFiles.some(glob => globToRegExp(glob).test(relative));
+};
+
+const globCache = new Map<string, RegExp>();
+
+/**
+ * Converts a glob, as used in `vscode.RelativePattern`, into a regular
+ * expression. Supports `**`, `*`, `?`, `[...]` and `{a,b}` groups.
+ */
+const globToRegExp = (glob: string) => {
+  const cached = globCache.get(glob);
+  if (cached) {
+    return cached;
+  }
+
+  let re = '';
+  let inGroup = false;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` matches any number of directories, including none
+      re += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += glob[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      re += '[^/]*';
+    } else if (char === '?') {
+      re += '[^/]';
+    } else if (char === '{') {
+      inGroup = true;
+      re += '(?:';
+    } else if (char === '}' && inGroup) {
+      inGroup = false;
+      re += ')';
+    } else if (char === ',' && inGroup) {
+      re += '|';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i);
+      if (end === -1) {
+        re += '\\[';
+      } else {
+        re += `[${glob.slice(i + 1, end).replace(/^!/, '^')}]`;
+        i = end;
+      }
+    } else {
+      re += char.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+
+  const result = new RegExp(`^${re}$`);
+  globCache.set(glob, result);
+  return result;
+};
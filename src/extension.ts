@@ -3,115 +3,151 @@
  *--------------------------------------------------------*/
 
 import * as vscode from 'vscode';
+import { IAngularProject, findProjectForFile, readAngularProjects } from './angularProjects';
+import { affectsSettings, getSettings, isTestFile } from './config';
 import { coverageContext } from './coverageProvider';
 import { FailingDeepStrictEqualAssertFixer } from './failingDeepStrictEqualAssertFixer';
 import { readFile } from "./fileReader";
+import { detectKarmaLaunchers, findKarmaConfig, readCustomLaunchers } from './karmaConfig';
+import { registerStopKarmaServers, stopKarmaServers } from './karmaServer';
 import { registerSnapshotUpdate } from './snapshot';
 import { scanTestOutput } from './testOutputScanner';
 import {
   TestCase,
   TestFile,
+  TestProject,
   clearFileDiagnostics,
-  guessWorkspaceFolder,
+  getHelperDependents,
+  getSpecFileUri,
   itemData,
 } from './testTree';
-import { AngularTestRunner, VSCodeTestRunner } from './vscodeTestRunner';
+import { AngularTestRunner, JestTestRunner, KarmaTestRunner, VSCodeTestRunner } from './vscodeTestRunner';
 
-const TEST_FILE_PATTERN = 'src/**/*.{test,integrationTest,spec}.ts';
 type TestRunner = "Karma" | "Jest" | "Angular" | undefined;
 
-const getWorkspaceFolderForTestFile = (uri: vscode.Uri) =>
-  (uri.path.endsWith('.test.ts') || uri.path.endsWith('.integrationTest.ts') || uri.path.endsWith('.spec.ts')) &&
-  uri.path.includes('/src/')
-    ? vscode.workspace.getWorkspaceFolder(uri)
-    : undefined;
-
-// const browserArgs: [name: string, arg: string][] = [
-//   ['Chrome', 'chromium'],
-//   ['Firefox', 'firefox'],
-//   ['Webkit', 'webkit'],
-// ];
-
-const baseFileNames = [
-  "package.json",
-  "angular.json"
-]
-
-async function getRunnerName(d: vscode.TextDocument): Promise<TestRunner> {
-  let fileName: string | undefined = undefined;
-  for (const file of baseFileNames) {
-    if (d.fileName.includes(file)) {
-      fileName = d.fileName;
-    }
-  }
+interface ITestFolder {
+  folder: vscode.WorkspaceFolder;
+  runner: Exclude<TestRunner, undefined>;
+  /**
+   * Projects of the folder's angular.json that have a test target.
+   */
+  projects: IAngularProject[];
+  /**
+   * Browsers of the Karma launchers installed in the folder.
+   */
+  launchers: string[];
+}
 
-  if (fileName?.includes("karma") || fileName?.includes("jest") || fileName?.includes("angular")) {
-    return fileName.includes("karma") ? "Karma" : fileName.includes("jest") ? "Jest" : "Angular";
+/**
+ * Workspace folders that contain a project we can run tests for, keyed by
+ * the folder URI.
+ */
+const testFolders = new Map<string, ITestFolder>();
+
+const getTestFolder = (uri: vscode.Uri) => {
+  const folder = vscode.workspace.getWorkspaceFolder(uri);
+  return folder && testFolders.get(folder.uri.toString());
+};
+
+const getTestFolderForTestFile = (uri: vscode.Uri) => {
+  const testFolder = getTestFolder(uri);
+  return testFolder && isTestFile(testFolder.folder, uri) ? testFolder : undefined;
+};
+
+/**
+ * Works out which test runner the project in the folder uses, looking at its
+ * angular.json, then its package.json scripts, then any karma or jest config.
+ */
+async function detectTestRunner(folder: vscode.WorkspaceFolder): Promise<TestRunner> {
+  const [angularJson, packageJson] = await vscode.workspace.findFiles(
+    new vscode.RelativePattern(folder, '{angular,package}.json')
+  ).then(files => [
+    files.find(f => f.path.endsWith('/angular.json')),
+    files.find(f => f.path.endsWith('/package.json')),
+  ]);
+
+  const runner =
+    (angularJson && (await readAngularJson(angularJson))) ||
+    (packageJson && (await readPackageJson(packageJson)));
+  if (runner) {
+    return runner;
   }
 
-  if (fileName === undefined) {
-    return undefined;
+  if ((await vscode.workspace.findFiles(new vscode.RelativePattern(folder, 'karma.conf.{js,ts,cjs,mjs}'), undefined, 1)).length) {
+    return "Karma";
   }
 
-  switch (fileName.split("\\").pop()) {
-    case 'package.json':
-      return await readPackageJson(d);
-    case 'angular.json':
-      return await readAngularJson(d);
+  if ((await vscode.workspace.findFiles(new vscode.RelativePattern(folder, 'jest.config.{js,ts,cjs,mjs,json}'), undefined, 1)).length) {
+    return "Jest";
   }
+
   return undefined;
 }
 
-async function readAngularJson(f: vscode.TextDocument): Promise<TestRunner> {
-  const file = await readFile(f.uri);
+async function readAngularJson(uri: vscode.Uri): Promise<TestRunner> {
+  const file = await readFile(uri);
   if (file === undefined) {
     return undefined;
   }
 
-  const jsonValue = JSON.parse(file);
-  const projects = jsonValue.projects;
+  let projects: Record<string, { architect?: { test?: { builder?: string } } }>;
+  try {
+    projects = JSON.parse(file).projects ?? {};
+  } catch {
+    return undefined;
+  }
 
   let testRunner: TestRunner = undefined;
 
   Object.keys(projects).forEach((key) => {
     if (testRunner === undefined) {
-      const architectObject = projects[key].architect;
-      if (architectObject === undefined) {
-        return;
-      }
-      const testConfig = architectObject.test;
-      if (testConfig === undefined) {
+      const builder = projects[key].architect?.test?.builder;
+      if (builder === undefined) {
         return;
       }
 
-      const builder: string = testConfig.builder;
-      testRunner = builder.includes("karma") ? "Karma" : builder.includes("jest") ? "Jest" : undefined;
+      // Karma builders are run through the Angular CLI
+      testRunner = builder.includes("karma") ? "Angular" : builder.includes("jest") ? "Jest" : undefined;
     }
   });
 
   return testRunner;
 }
 
-async function readPackageJson(f: vscode.TextDocument): Promise<TestRunner> {
-  const file = await readFile(f.uri);
+async function readPackageJson(uri: vscode.Uri): Promise<TestRunner> {
+  const file = await readFile(uri);
   if (file === undefined) {
     return undefined;
   }
-  const jsonValue = JSON.parse(file)
-  const scriptsDefs = jsonValue.scripts;
+
+  let scriptsDefs: Record<string, string> | undefined;
+  try {
+    scriptsDefs = JSON.parse(file).scripts;
+  } catch {
+    return undefined;
+  }
   if (scriptsDefs === undefined) {
     return undefined;
   }
 
-  let testRunner: TestRunner = undefined;
-  Object.keys(scriptsDefs).forEach((key) => {
-    if (testRunner == undefined) {
-      if (key.includes("test")) {
-        testRunner = scriptsDefs[key].includes("karma") ? "Karma" : scriptsDefs[key].includes("jest") ? "Jest" : scriptsDefs[key].split(" ")[0] === "ng" ? "Angular" : undefined;
-      }
+  for (const key of Object.keys(scriptsDefs)) {
+    const script = scriptsDefs?.[key];
+    if (!key.includes("test") || typeof script !== "string") {
+      continue;
     }
-  });
-  return testRunner;
+
+    if (script.includes("karma")) {
+      return "Karma";
+    }
+    if (script.includes("jest")) {
+      return "Jest";
+    }
+    if (script.split(" ")[0] === "ng") {
+      return "Angular";
+    }
+  }
+
+  return undefined;
 }
 
 type FileChangeEvent = { uri: vscode.Uri; removed: boolean };
@@ -119,10 +155,18 @@ type FileChangeEvent = { uri: vscode.Uri; removed: boolean };
 export async function activate(context: vscode.ExtensionContext) {
   const ctrl = vscode.tests.createTestController('selfhost-test-controller', 'VS Code Tests');
   const fileChangedEmitter = new vscode.EventEmitter<FileChangeEvent>();
+  const watchers = new Map</* folder uri */ string, vscode.Disposable>();
+  let isWatching = false;
 
   ctrl.resolveHandler = async test => {
     if (!test) {
-      context.subscriptions.push(await startWatchingWorkspace(ctrl, fileChangedEmitter));
+      isWatching = true;
+      for (const testFolder of testFolders.values()) {
+        watchers.set(
+          testFolder.folder.uri.toString(),
+          await startWatchingFolder(ctrl, testFolder, fileChangedEmitter)
+        );
+      }
       return;
     }
 
@@ -135,38 +179,63 @@ export async function activate(context: vscode.ExtensionContext) {
   };
 
   const createRunHandler = (
-    runnerCtor: { new (folder: vscode.WorkspaceFolder, kind: vscode.TestRunProfileKind, continuous?: boolean,): VSCodeTestRunner },
+    runnerName: ITestFolder['runner'],
+    runnerCtor: { new (folder: vscode.WorkspaceFolder, kind: vscode.TestRunProfileKind, continuous?: boolean, project?: IAngularProject): VSCodeTestRunner },
     kind: vscode.TestRunProfileKind,
     args: string[] = []
   ) => {
-    const doTestRun = async (
+    const doProjectRun = async (
+      folder: vscode.WorkspaceFolder,
+      project: IAngularProject | undefined,
+      include: vscode.TestItem[],
       req: vscode.TestRunRequest,
       cancellationToken: vscode.CancellationToken
     ) => {
-      const folder = await guessWorkspaceFolder();
-      if (!folder) {
-        return;
+      const runner = new runnerCtor(folder, kind, req.continuous, project);
+      const map = await getPendingTestMap(ctrl, include);
+      const task = ctrl.createTestRun(
+        req,
+        project?.name ?? (testFolders.size > 1 ? folder.name : undefined)
+      );
+      for (const test of [...map.values()].flat()) {
+        task.enqueued(test);
       }
 
-      const runner = new runnerCtor(folder, kind, req.continuous);
-      const map = await getPendingTestMap(ctrl, req.include ?? gatherTestItems(ctrl.items));
-      const task = ctrl.createTestRun(req);
-      for (const test of map.values()) {
-        task.enqueued(test);
+      const currentArgs = [...args, ...getSettings(folder).extraArgs];
+      const filter = req.include && include;
+      const scanner =
+        kind === vscode.TestRunProfileKind.Debug
+          ? await runner.debug(currentArgs, filter)
+          : await runner.run(currentArgs, filter);
+
+      return await scanTestOutput(map, task, scanner, ctrl, folder, project, runner.coverageDir, cancellationToken);
+    };
+
+    const doTestRun = async (
+      req: vscode.TestRunRequest,
+      cancellationToken: vscode.CancellationToken
+    ) => {
+      // Tests are run in the folder that owns them, and each Angular project
+      // is built and run on its own, so that running a file only builds the
+      // project containing it.
+      const groups = groupByProject(req.include ?? gatherTestItems(ctrl.items), runnerName);
+      if (req.continuous) {
+        // watch mode processes don't exit, so they can't be run one after another
+        await Promise.all(
+          groups.map(({ folder, project, include }) =>
+            doProjectRun(folder, project, include, req, cancellationToken)
+          )
+        );
+        return;
       }
 
-      let coverageDir: string | undefined;
-      const currentArgs = args;
+      for (const { folder, project, include } of groups) {
+        if (cancellationToken.isCancellationRequested) {
+          return;
+        }
 
-      return await scanTestOutput(
-        map,
-        task,
-        kind === vscode.TestRunProfileKind.Debug
-          ? await runner.debug(currentArgs, req.include)
-          : await runner.run(currentArgs, req.include),
-        coverageDir,
-        cancellationToken
-      );
+        await doProjectRun(folder, project, include, req, cancellationToken);
+      }
     };
 
     return async (req: vscode.TestRunRequest, cancellationToken: vscode.CancellationToken) => {
@@ -180,7 +249,7 @@ export async function activate(context: vscode.ExtensionContext) {
       const listener = fileChangedEmitter.event(({ uri, removed }) => {
         clearTimeout(debounced);
 
-        if (req.include && !req.include.some(i => i.uri?.toString() === uri.toString())) {
+        if (req.include && !req.include.some(i => getSpecFileUri(i)?.toString() === uri.toString())) {
           return;
         }
 
@@ -192,7 +261,7 @@ export async function activate(context: vscode.ExtensionContext) {
 
         debounced = setTimeout(() => {
           const include =
-            req.include?.filter(t => t.uri && queuedFiles.has(t.uri?.toString())) ??
+            req.include?.filter(t => queuedFiles.has(getSpecFileUri(t)?.toString() ?? "")) ??
             [...queuedFiles]
               .map(f => getOrCreateFile(ctrl, vscode.Uri.parse(f)))
               .filter((f): f is vscode.TestItem => !!f);
@@ -202,7 +271,7 @@ export async function activate(context: vscode.ExtensionContext) {
             new vscode.TestRunRequest(include, req.exclude, req.profile, true),
             cancellationToken
           );
-        }, 1000);
+        }, getSettings(vscode.workspace.getWorkspaceFolder(uri)).continuousDebounce);
       });
 
       cancellationToken.onCancellationRequested(() => {
@@ -212,18 +281,6 @@ export async function activate(context: vscode.ExtensionContext) {
     };
   };
 
-  let runnerName: TestRunner = undefined;
-
-  for (const document of vscode.workspace.textDocuments) {
-    if (runnerName === undefined) {
-      const runner = await getRunnerName(document);
-      if (!!runner && runner.length) {
-        runnerName = runner;
-      }
-    }
-    updateNodeForDocument(document);
-  }
-
   function updateNodeForDocument(e: vscode.TextDocument) {
     const node = getOrCreateFile(ctrl, e.uri);
     const data = node && itemData.get(node);
@@ -232,84 +289,183 @@ export async function activate(context: vscode.ExtensionContext) {
     }
   }
 
-  if (runnerName === undefined) {
-    const k = await vscode.workspace.findFiles('*.confi?g?.m?(j|t)sx?');
-    const d =(await vscode.workspace.findFiles('*.json')).concat(k)
-    for (let i = 0; i < d.length; i++) {
-      const u = d[i];
-      const document = await vscode.workspace.openTextDocument(u)
-      if (runnerName === undefined) {
-        const runner = await getRunnerName(document);
-        if (!!runner && runner.length) {
-          runnerName = runner;
-        }
-      }
+  const profilesCreated = new Set<TestRunner>();
+  const createProfiles = (runnerName: ITestFolder['runner']) => {
+    if (profilesCreated.has(runnerName)) {
+      return;
+    }
+    profilesCreated.add(runnerName);
+
+    let coverage: vscode.TestRunProfile | undefined;
+    switch (runnerName) {
+      case "Angular":
+        ctrl.createRunProfile(
+          "Angular Tests",
+          vscode.TestRunProfileKind.Run,
+          createRunHandler(runnerName, AngularTestRunner, vscode.TestRunProfileKind.Run),
+          true,
+          undefined,
+          true
+        );
+        ctrl.createRunProfile(
+          "Angular Debug Tests",
+          vscode.TestRunProfileKind.Debug,
+          createRunHandler(runnerName, AngularTestRunner, vscode.TestRunProfileKind.Debug),
+          true,
+          undefined,
+          true
+        );
+        coverage = ctrl.createRunProfile(
+          "Coverage with Angular",
+          vscode.TestRunProfileKind.Coverage,
+          createRunHandler(runnerName, AngularTestRunner, vscode.TestRunProfileKind.Coverage),
+          true,
+          undefined,
+          true
+        );
+        break;
+      case "Karma":
+        ctrl.createRunProfile(
+          "Karma Tests",
+          vscode.TestRunProfileKind.Run,
+          createRunHandler(runnerName, KarmaTestRunner, vscode.TestRunProfileKind.Run),
+          true,
+          undefined,
+          true
+        );
+        ctrl.createRunProfile(
+          "Karma Debug Tests",
+          vscode.TestRunProfileKind.Debug,
+          createRunHandler(runnerName, KarmaTestRunner, vscode.TestRunProfileKind.Debug),
+          true,
+          undefined,
+          true
+        );
+        break;
+      case "Jest":
+        ctrl.createRunProfile(
+          "Jest Tests",
+          vscode.TestRunProfileKind.Run,
+          createRunHandler(runnerName, JestTestRunner, vscode.TestRunProfileKind.Run),
+          true,
+          undefined,
+          true
+        );
+        ctrl.createRunProfile(
+          "Jest Debug Tests",
+          vscode.TestRunProfileKind.Debug,
+          createRunHandler(runnerName, JestTestRunner, vscode.TestRunProfileKind.Debug),
+          true,
+          undefined,
+          true
+        );
+        coverage = ctrl.createRunProfile(
+          "Coverage with Jest",
+          vscode.TestRunProfileKind.Coverage,
+          createRunHandler(runnerName, JestTestRunner, vscode.TestRunProfileKind.Coverage),
+          true,
+          undefined,
+          true
+        );
+        break;
     }
-  }
 
-  // eslint-disable-next-line prefer-const
-  let coverage: vscode.TestRunProfile = undefined!;
-  switch (runnerName) {
-    case "Angular":
-      ctrl.createRunProfile(
-        "Angular Tests",
+    if (coverage) {
+      coverage.loadDetailedCoverage = coverageContext.loadDetailedCoverage;
+    }
+  };
+
+  const browserProfilesCreated = new Set<string>();
+  const createBrowserProfiles = ({ runner, launchers }: ITestFolder) => {
+    const runnerCtor = runner === "Karma" ? KarmaTestRunner : AngularTestRunner;
+    for (const launcher of launchers) {
+      const key = `${runner}:${launcher}`;
+      if (browserProfilesCreated.has(key)) {
+        continue;
+      }
+      browserProfilesCreated.add(key);
+
+      // The array is shared with the run handler, so picking another
+      // launcher applies to the following runs.
+      const stateKey = `browserProfile:${key}`;
+      const browser = context.workspaceState.get<string>(stateKey, launcher);
+      const args = [`--browsers=${browser}`];
+      const cfg = ctrl.createRunProfile(
+        `Run in ${browser}`,
         vscode.TestRunProfileKind.Run,
-        createRunHandler(AngularTestRunner, vscode.TestRunProfileKind.Run),
-        true,
+        createRunHandler(runner, runnerCtor, vscode.TestRunProfileKind.Run, args),
+        false,
         undefined,
         true
       );
-      // TODO: Fix debugger profile
-/*
-      ctrl.createRunProfile(
-        "Angular Debug Tests",
-        vscode.TestRunProfileKind.Debug,
-        createRunHandler(AngularTestRunner, vscode.TestRunProfileKind.Debug),
-        true,
-        undefined,
-        true
-      );
-*/
-/*
-      // TODO: Fix Coverage profile
-      coverage = ctrl.createRunProfile(
-        "Coverage with Angular",
-        vscode.TestRunProfileKind.Coverage,
-        createRunHandler(AngularTestRunner, vscode.TestRunProfileKind.Coverage),
-        true,
-        undefined,
-        true
-      )
-      */
+
+      cfg.configureHandler = async () => {
+        const customLaunchers = new Set<string>();
+        for (const testFolder of testFolders.values()) {
+          if (testFolder.runner === runner) {
+            const configFile = await findKarmaConfig(testFolder.folder);
+            (await readCustomLaunchers(configFile)).forEach(l => customLaunchers.add(l));
+          }
+        }
+
+        const picked = await vscode.window.showQuickPick(
+          [launcher, ...[...customLaunchers].filter(l => l !== launcher)],
+          { placeHolder: `Pick the Karma launcher to run tests in instead of ${launcher}` }
+        );
+        if (!picked) {
+          return;
+        }
+
+        args[0] = `--browsers=${picked}`;
+        cfg.label = `Run in ${picked}`;
+        context.workspaceState.update(stateKey, picked);
+      };
     }
-  if (coverage)
-    coverage.loadDetailedCoverage = coverageContext.loadDetailedCoverage;
-  // if (runnerName !== "Jest")
-  //   for (const [name, arg] of browserArgs) {
-  //     const cfg = ctrl.createRunProfile(
-  //       `Run in ${name}`,
-  //       vscode.TestRunProfileKind.Run,
-  //       createRunHandler(BrowserTestRunner, vscode.TestRunProfileKind.Run, [' --browser', arg]),
-  //       undefined,
-  //       undefined,
-  //       true
-  //     );
-
-  //     cfg.configureHandler = () => vscode.window.showInformationMessage(`Configuring ${name}`);
-
-  //     ctrl.createRunProfile(
-  //       `Debug in ${name}`,
-  //       vscode.TestRunProfileKind.Debug,
-  //       createRunHandler(BrowserTestRunner, vscode.TestRunProfileKind.Debug, [
-  //         '--browser',
-  //         arg,
-  //         '--debug-browser',
-  //       ]),
-  //       undefined,
-  //       undefined,
-  //       true
-  //     );
-  //   }
+  };
+
+  const addFolder = async (folder: vscode.WorkspaceFolder) => {
+    const runner = await detectTestRunner(folder);
+    if (!runner) {
+      return;
+    }
+
+    const testFolder: ITestFolder = {
+      folder,
+      runner,
+      projects: await readAngularProjects(folder),
+      launchers: runner === "Jest" ? [] : await detectKarmaLaunchers(folder, await findKarmaConfig(folder)),
+    };
+    testFolders.set(folder.uri.toString(), testFolder);
+    createProfiles(runner);
+    createBrowserProfiles(testFolder);
+
+    if (isWatching) {
+      watchers.set(folder.uri.toString(), await startWatchingFolder(ctrl, testFolder, fileChangedEmitter));
+    }
+  };
+
+  const removeFolder = (folder: vscode.WorkspaceFolder) => {
+    const key = folder.uri.toString();
+    testFolders.delete(key);
+    stopKarmaServers(folder);
+    watchers.get(key)?.dispose();
+    watchers.delete(key);
+
+    ctrl.items.forEach(item => {
+      const data = itemData.get(item);
+      if ((data instanceof TestFile || data instanceof TestProject) && data.workspaceFolder.uri.toString() === key) {
+        ctrl.items.delete(item.id);
+      }
+    });
+  };
+
+  for (const folder of vscode.workspace.workspaceFolders ?? []) {
+    await addFolder(folder);
+  }
+
+  for (const document of vscode.workspace.textDocuments) {
+    updateNodeForDocument(document);
+  }
 
   context.subscriptions.push(
     ctrl,
@@ -321,9 +477,34 @@ export async function activate(context: vscode.ExtensionContext) {
         }
       }
     }),
+    vscode.workspace.onDidChangeWorkspaceFolders(async e => {
+      e.removed.forEach(removeFolder);
+      for (const folder of e.added) {
+        await addFolder(folder);
+      }
+    }),
+    vscode.workspace.onDidChangeConfiguration(async e => {
+      // Other settings are read on each run, but these change which files
+      // are tests, so the folder is discovered again.
+      for (const { folder } of [...testFolders.values()]) {
+        if (affectsSettings(e, folder, 'testFiles', 'karmaConfig')) {
+          removeFolder(folder);
+          await addFolder(folder);
+        } else if (affectsSettings(e, folder, 'persistentServer') && !getSettings(folder).persistentServer) {
+          stopKarmaServers(folder);
+        }
+      }
+
+      for (const document of vscode.workspace.textDocuments) {
+        updateNodeForDocument(document);
+      }
+    }),
+    { dispose: () => watchers.forEach(w => w.dispose()) },
+    { dispose: () => stopKarmaServers() },
     vscode.workspace.onDidOpenTextDocument(updateNodeForDocument),
     vscode.workspace.onDidChangeTextDocument(e => updateNodeForDocument(e.document)),
     registerSnapshotUpdate(ctrl),
+    registerStopKarmaServers(),
     new FailingDeepStrictEqualAssertFixer()
   );
 }
@@ -336,64 +517,166 @@ function getOrCreateFile(
   controller: vscode.TestController,
   uri: vscode.Uri
 ): vscode.TestItem | undefined {
-  const folder = getWorkspaceFolderForTestFile(uri);
-  if (!folder) {
+  const testFolder = getTestFolderForTestFile(uri);
+  if (!testFolder) {
     return undefined;
   }
 
-  const data = new TestFile(uri, folder);
-  const existing = controller.items.get(data.getId());
+  const data = new TestFile(uri, testFolder.folder);
+  const collection = getFileCollection(controller, uri, testFolder);
+  const existing = collection.get(data.getId());
   if (existing) {
     return existing;
   }
 
   const file = controller.createTestItem(data.getId(), data.getLabel(), uri);
-  controller.items.add(file);
+  if (collection === controller.items && testFolders.size > 1) {
+    file.description = testFolder.folder.name;
+  }
+  collection.add(file);
   file.canResolveChildren = true;
   itemData.set(file, data);
 
   return file;
 }
 
+/**
+ * Gets the collection a test file belongs in. When angular.json has several
+ * test projects, files are grouped under an item for their project.
+ */
+function getFileCollection(
+  controller: vscode.TestController,
+  uri: vscode.Uri,
+  { folder, projects }: ITestFolder
+) {
+  const project = projects.length > 1 && findProjectForFile(projects, uri);
+  if (!project) {
+    return controller.items;
+  }
+
+  const data = new TestProject(project, folder);
+  const existing = controller.items.get(data.getId());
+  if (existing) {
+    return existing.children;
+  }
+
+  const item = controller.createTestItem(data.getId(), data.getLabel(), project.root);
+  if (testFolders.size > 1) {
+    item.description = folder.name;
+  }
+  controller.items.add(item);
+  itemData.set(item, data);
+
+  return item.children;
+}
+
+interface ITestGroup {
+  folder: vscode.WorkspaceFolder;
+  project: IAngularProject | undefined;
+  include: vscode.TestItem[];
+}
+
+/**
+ * Splits the tests by the workspace folder and Angular project they belong
+ * to, dropping those in folders that use a different test runner.
+ */
+function groupByProject(tests: readonly vscode.TestItem[], runner: ITestFolder['runner']) {
+  const groups = new Map<string, ITestGroup>();
+  for (const test of tests) {
+    const data = itemData.get(test);
+    // tests from imported helpers belong to the spec file, not the helper's
+    const uri = getSpecFileUri(test);
+    const testFolder = uri && getTestFolder(uri);
+    if (!testFolder || testFolder.runner !== runner) {
+      continue;
+    }
+
+    const project =
+      data instanceof TestProject
+        ? data.project
+        : findProjectForFile(testFolder.projects, uri!);
+
+    const key = `${testFolder.folder.uri}#${project?.name ?? ''}`;
+    const group = groups.get(key);
+    if (group) {
+      group.include.push(test);
+    } else {
+      groups.set(key, { folder: testFolder.folder, project, include: [test] });
+    }
+  }
+
+  return [...groups.values()];
+}
+
 function gatherTestItems(collection: vscode.TestItemCollection) {
   const items: vscode.TestItem[] = [];
   collection.forEach(item => items.push(item));
   return items;
 }
 
-async function startWatchingWorkspace(
+async function startWatchingFolder(
   controller: vscode.TestController,
+  testFolder: ITestFolder,
   fileChangedEmitter: vscode.EventEmitter<FileChangeEvent>
 ) {
-  const workspaceFolder = await guessWorkspaceFolder();
-  if (!workspaceFolder) {
-    return new vscode.Disposable(() => undefined);
-  }
-
-  const pattern = new vscode.RelativePattern(workspaceFolder, TEST_FILE_PATTERN);
-  const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+  const watchers = getSettings(testFolder.folder).testFiles.map(async glob => {
+    const pattern = new vscode.RelativePattern(testFolder.folder, glob);
+    const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+
+    watcher.onDidCreate(uri => {
+      getOrCreateFile(controller, uri);
+      fileChangedEmitter.fire({ removed: false, uri });
+    });
+    watcher.onDidChange(uri => fileChangedEmitter.fire({ removed: false, uri }));
+    watcher.onDidDelete(uri => {
+      fileChangedEmitter.fire({ removed: true, uri });
+      clearFileDiagnostics(uri);
+      const collection = getFileCollection(controller, uri, testFolder);
+      collection.delete(new TestFile(uri, testFolder.folder).getId());
+    });
+
+    for (const file of await vscode.workspace.findFiles(pattern, '**/node_modules/**')) {
+      getOrCreateFile(controller, file);
+    }
 
-  watcher.onDidCreate(uri => {
-    getOrCreateFile(controller, uri);
-    fileChangedEmitter.fire({ removed: false, uri });
-  });
-  watcher.onDidChange(uri => fileChangedEmitter.fire({ removed: false, uri }));
-  watcher.onDidDelete(uri => {
-    fileChangedEmitter.fire({ removed: true, uri });
-    clearFileDiagnostics(uri);
-    controller.items.delete(uri.toString());
+    return watcher;
   });
 
-  for (const file of await vscode.workspace.findFiles(pattern)) {
-    getOrCreateFile(controller, file);
-  }
+  // spec files are read again when a helper they import tests from changes
+  const helperWatcher = vscode.workspace.createFileSystemWatcher(
+    new vscode.RelativePattern(testFolder.folder, '**/*.{ts,js}'),
+    true
+  );
+  const updateDependents = (uri: vscode.Uri) => {
+    for (const dependent of getHelperDependents(uri)) {
+      const file = getFileCollection(controller, dependent, testFolder).get(
+        new TestFile(dependent, testFolder.folder).getId()
+      );
+      const data = file && itemData.get(file);
+      if (data instanceof TestFile && data.hasBeenRead) {
+        const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === dependent.toString());
+        if (document) {
+          data.updateFromContents(controller, document.getText(), file!);
+        } else {
+          data.updateFromDisk(controller, file!);
+        }
+      }
+    }
+  };
+  helperWatcher.onDidChange(updateDependents);
+  helperWatcher.onDidDelete(updateDependents);
 
-  return watcher;
+  return vscode.Disposable.from(helperWatcher, ...(await Promise.all(watchers)));
 }
 
+/**
+ * Gets the tests to run keyed by full name. Spec files often share names,
+ * such as Angular's `AppComponent should create`, so a name may have a test
+ * in each of them.
+ */
 async function getPendingTestMap(ctrl: vscode.TestController, tests: Iterable<vscode.TestItem>) {
   const queue = [tests];
-  const titleMap = new Map<string, vscode.TestItem>();
+  const titleMap = new Map<string, vscode.TestItem[]>();
   while (queue.length) {
     for (const item of queue.pop()!) {
       const data = itemData.get(item);
@@ -403,7 +686,7 @@ async function getPendingTestMap(ctrl: vscode.TestController, tests: Iterable<vs
         }
         queue.push(gatherTestItems(item.children));
       } else if (data instanceof TestCase) {
-        titleMap.set(data.fullName, item);
+        titleMap.set(data.fullName, [...(titleMap.get(data.fullName) ?? []), item]);
       } else {
         queue.push(gatherTestItems(item.children));
       }
@@ -0,0 +1,119 @@
+import * as vscode from 'vscode';
+import { IAngularProject } from './angularProjects';
+import { getSettings } from './config';
+import { readFile } from './fileReader';
+
+/**
+ * Browsers provided by the Karma launcher packages we know of, keyed by
+ * package name.
+ */
+const launcherPackages: ReadonlyMap<string, readonly string[]> = new Map([
+  ['karma-chrome-launcher', ['ChromeHeadless', 'Chrome']],
+  ['karma-firefox-launcher', ['FirefoxHeadless', 'Firefox']],
+  ['@chiragrupani/karma-chromium-edge-launcher', ['Edge', 'EdgeHeadless']],
+  ['karma-edge-launcher', ['Edge']],
+]);
+
+/**
+ * Finds the karma config for the folder. One set in the settings is used
+ * first, then the one set on the project's test target in angular.json.
+ */
+export async function findKarmaConfig(
+  folder: vscode.WorkspaceFolder,
+  project?: IAngularProject
+): Promise<vscode.Uri | undefined> {
+  const { karmaConfig } = getSettings(folder);
+  if (karmaConfig) {
+    return vscode.Uri.joinPath(folder.uri, karmaConfig);
+  }
+
+  if (project?.karmaConfig) {
+    return project.karmaConfig;
+  }
+
+  let files = await vscode.workspace.findFiles(new vscode.RelativePattern(folder, 'karma.conf.ts'));
+  if (!files || !files.length) {
+    files = await vscode.workspace.findFiles(new vscode.RelativePattern(folder, 'karma.conf.js'));
+  }
+
+  return files?.[0];
+}
+
+/**
+ * Lists the browsers the folder can run tests in, based on the launcher
+ * packages in its package.json and the plugins its karma config requires.
+ */
+export async function detectKarmaLaunchers(
+  folder: vscode.WorkspaceFolder,
+  configFile: vscode.Uri | undefined
+): Promise<string[]> {
+  const packages = new Set<string>();
+
+  const packageJson = await readFile(vscode.Uri.joinPath(folder.uri, 'package.json'));
+  if (packageJson) {
+    try {
+      const { dependencies, devDependencies } = JSON.parse(packageJson);
+      Object.keys({ ...dependencies, ...devDependencies }).forEach(p => packages.add(p));
+    } catch {
+      // ignored
+    }
+  }
+
+  const config = configFile && (await readFile(configFile));
+  if (config) {
+    for (const name of launcherPackages.keys()) {
+      if (config.includes(name)) {
+        packages.add(name);
+      }
+    }
+  }
+
+  const browsers = new Set<string>();
+  for (const [name, provided] of launcherPackages) {
+    if (packages.has(name)) {
+      provided.forEach(b => browsers.add(b));
+    }
+  }
+
+  return [...browsers];
+}
+
+/**
+ * Reads the names of the launchers declared in the `customLaunchers` of a
+ * karma config.
+ */
+export async function readCustomLaunchers(configFile: vscode.Uri | undefined): Promise<string[]> {
+  const content = configFile && (await readFile(configFile));
+  const start = content ? content.search(/customLaunchers\s*:\s*\{/) : -1;
+  if (!content || start === -1) {
+    return [];
+  }
+
+  const names: string[] = [];
+  const keyRe = /^\s*(['"]?)([\w-]+)\1\s*:/;
+  let depth = 0;
+  let lineStart = content.indexOf('{', start) + 1;
+  for (let i = lineStart; i < content.length; i++) {
+    const char = content[i];
+    if (char === '{') {
+      if (depth === 0) {
+        const match = keyRe.exec(content.slice(lineStart, i));
+        if (match) {
+          names.push(match[2]);
+        }
+      }
+      depth++;
+    } else if (char === '}') {
+      if (depth === 0) {
+        break;
+      }
+      if (--depth === 0) {
+        lineStart = i + 1;
+      }
+    } else if (char === ',' && depth === 0) {
+      lineStart = i + 1;
+    }
+  }
+
+  return names;
+}
@@ -0,0 +1,276 @@
+import { ChildProcess, ChildProcessWithoutNullStreams } from 'child_process';
+import * as http from 'http';
+import * as split from 'split2';
+import * as vscode from 'vscode';
+import { ReporterChannel } from './reporterChannel';
+import { JasmineEvent, JasmineEventTuple } from './testOutputScanner';
+
+/**
+ * How long a server gets to build the tests and capture a browser.
+ */
+const READY_TIMEOUT = 5 * 60 * 1000;
+
+/**
+ * A server that crashes this many times within `CRASH_WINDOW` is not
+ * restarted again until the next run asks for it.
+ */
+const MAX_CRASHES = 3;
+const CRASH_WINDOW = 60 * 1000;
+
+/**
+ * Karma logs this once a browser has connected, after which runs can be
+ * triggered on the server.
+ */
+const browserConnectedRe = /Connected on socket/;
+
+export interface IKarmaServerProcess {
+  process: ChildProcessWithoutNullStreams;
+  /**
+   * Port the Karma server listens on.
+   */
+  port: number;
+  /**
+   * Channel the server's reporter sends its events on, if one was opened.
+   */
+  channel?: ReporterChannel;
+}
+
+interface IRunningServer extends IKarmaServerProcess {
+  ready: Promise<void>;
+}
+
+/**
+ * A Karma server, either `ng test --watch` or `karma start`, that is kept
+ * running between test runs so that they don't pay for building the tests
+ * and launching the browser each time. Runs are triggered on it with
+ * `karma run`, and their results are read from the server's reporter.
+ */
+export class KarmaServer implements vscode.Disposable {
+  private readonly outputEmitter = new vscode.EventEmitter<string>();
+  private readonly reporterEventEmitter = new vscode.EventEmitter<JasmineEventTuple>();
+  private readonly crashes: number[] = [];
+  private current?: IRunningServer;
+  private queue = Promise.resolve();
+  /**
+   * Resolved once the tests the server is currently running, if any, are done.
+   */
+  private idle = Promise.resolve();
+  private disposed = false;
+
+  /**
+   * Fired for each line the server writes to stdout or stderr.
+   */
+  public readonly onOutput = this.outputEmitter.event;
+
+  /**
+   * Fired for each event the server's reporter sends on its channel.
+   */
+  public readonly onReporterEvent = this.reporterEventEmitter.event;
+
+  constructor(
+    public readonly name: string,
+    /**
+     * Identifies the arguments and settings the server was started with.
+     */
+    public readonly signature: string,
+    private readonly launch: () => Promise<IKarmaServerProcess>
+  ) {}
+
+  /**
+   * Starts a run on the server once the previous one has finished. The server
+   * is started, or restarted if it is no longer healthy, first. `spawnRun`
+   * is called with the server's port and returns the `karma run` process.
+   */
+  public async schedule<T extends ChildProcess>(spawnRun: (port: number) => T): Promise<T> {
+    const previous = this.queue;
+    let release!: () => void;
+    this.queue = new Promise<void>(resolve => (release = resolve));
+
+    try {
+      await previous;
+      const { port } = await this.connect();
+      await this.idle;
+      const cp = spawnRun(port);
+      cp.once('exit', release);
+      cp.once('error', release);
+      return cp;
+    } catch (e) {
+      release();
+      throw e;
+    }
+  }
+
+  /**
+   * @override
+   */
+  public dispose() {
+    this.disposed = true;
+    this.stop();
+    this.outputEmitter.dispose();
+    this.reporterEventEmitter.dispose();
+  }
+
+  private async connect() {
+    if (this.current && !(await this.isHealthy(this.current))) {
+      this.outputEmitter.fire(`Karma server for ${this.name} is not responding, restarting it`);
+      this.stop();
+    }
+
+    const server = this.current ?? (await this.start());
+    await server.ready;
+    return server;
+  }
+
+  private async isHealthy({ process, port }: IRunningServer) {
+    if (process.exitCode !== null || process.signalCode !== null) {
+      return false;
+    }
+
+    return new Promise<boolean>(resolve => {
+      const req = http.get({ host: '127.0.0.1', port, path: '/', timeout: 2000 }, res => {
+        res.resume();
+        resolve(res.statusCode === 200);
+      });
+      req.on('timeout', () => req.destroy());
+      req.on('error', () => resolve(false));
+    });
+  }
+
+  private async start(): Promise<IRunningServer> {
+    const { process, port, channel } = await this.launch();
+
+    // Karma also runs the tests on its own, when it starts or files change;
+    // runs triggered meanwhile wait for those to finish. The server is busy
+    // from launch, as its first run may start after a run is triggered.
+    let resolveIdle: (() => void) | undefined;
+    this.idle = new Promise(r => (resolveIdle = r));
+    const trackRuns = (event: string) => {
+      if (event === JasmineEvent.Start) {
+        resolveIdle?.();
+        this.idle = new Promise(r => (resolveIdle = r));
+      } else if (event === JasmineEvent.End) {
+        resolveIdle?.();
+      }
+    };
+
+    channel?.onEvent(evt => {
+      trackRuns(evt[0]);
+      this.reporterEventEmitter.fire(evt);
+    });
+
+    const ready = new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        reject(new Error(`Karma server for ${this.name} did not capture a browser in time`));
+        this.stop();
+      }, READY_TIMEOUT);
+
+      const onLine = (line: string) => {
+        if (browserConnectedRe.test(line)) {
+          clearTimeout(timeout);
+          resolve();
+        }
+
+        // without a channel, the reporter's events come in among the output
+        const event = [JasmineEvent.Start, JasmineEvent.End].find(e => line.includes(e));
+        if (event && !channel?.isConnected) {
+          trackRuns(event);
+        }
+
+        this.outputEmitter.fire(line);
+      };
+
+      process.stdout.pipe(split()).on('data', onLine);
+      process.stderr.pipe(split()).on('data', onLine);
+      process.once('exit', code => {
+        clearTimeout(timeout);
+        resolveIdle?.();
+        reject(new Error(`Karma server for ${this.name} exited with code ${code}`));
+      });
+    });
+
+    // avoid an unhandled rejection when the server exits between runs
+    ready.catch(() => undefined);
+
+    const server: IRunningServer = { process, port, ready };
+    process.once('exit', () => this.onExit(server));
+    this.current = server;
+    return server;
+  }
+
+  private stop() {
+    const server = this.current;
+    this.current = undefined;
+    try {
+      server?.process.kill();
+    } catch {
+      // ignored
+    }
+  }
+
+  private onExit(server: IRunningServer) {
+    if (this.current !== server || this.disposed) {
+      return; // stopped on purpose
+    }
+
+    this.current = undefined;
+    const now = Date.now();
+    this.crashes.push(now);
+    while (this.crashes[0] < now - CRASH_WINDOW) {
+      this.crashes.shift();
+    }
+
+    if (this.crashes.length >= MAX_CRASHES) {
+      vscode.window.showWarningMessage(
+        `The Karma server for ${this.name} keeps crashing, it will be started again on the next run.`
+      );
+      this.crashes.length = 0;
+      return;
+    }
+
+    this.start().catch(e => console.warn(`Error restarting the Karma server for ${this.name}`, e));
+  }
+}
+
+/**
+ * Servers that are kept running, keyed by workspace folder URI and Angular
+ * project name.
+ */
+const servers = new Map<string, KarmaServer>();
+
+/**
+ * Gets the server kept running for the project, replacing it with a new one
+ * if the arguments or settings it was started with have changed.
+ */
+export function getKarmaServer(
+  folder: vscode.WorkspaceFolder,
+  projectName: string | undefined,
+  signature: string,
+  launch: () => Promise<IKarmaServerProcess>
+) {
+  const key = `${folder.uri}#${projectName ?? ''}`;
+  let server = servers.get(key);
+  if (server?.signature !== signature) {
+    server?.dispose();
+    server = new KarmaServer(projectName ?? folder.name, signature, launch);
+    servers.set(key, server);
+  }
+
+  return server;
+}
+
+/**
+ * Stops the servers kept running for the folder, or all of them.
+ */
+export function stopKarmaServers(folder?: vscode.WorkspaceFolder) {
+  for (const [key, server] of servers) {
+    if (!folder || key.startsWith(`${folder.uri}#`)) {
+      server.dispose();
+      servers.delete(key);
+    }
+  }
+}
+
+export const registerStopKarmaServers = () =>
+  vscode.commands.registerCommand('selfhost-test-provider.stopKarmaServers', () =>
+    stopKarmaServers()
+  );
@@ -0,0 +1,128 @@
+import { randomBytes } from 'crypto';
+import { Server, Socket, createServer } from 'net';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import * as split from 'split2';
+import * as vscode from 'vscode';
+import type { JasmineEventTuple } from './testOutputScanner';
+
+/**
+ * Environment variable the reporter reads the channel's address from.
+ */
+export const REPORTER_SOCKET_ENV = 'VSCODE_TEST_REPORTER_SOCKET';
+
+/**
+ * How long to wait for the reporter's connections to close once the test
+ * process has exited.
+ */
+const DRAIN_TIMEOUT = 1000;
+
+/**
+ * A socket, or named pipe on Windows, that the reporter sends its events to
+ * instead of writing them among the test process' output. Each event is a
+ * `[event, data]` JSON tuple on a line of its own.
+ */
+export class ReporterChannel implements vscode.Disposable {
+  private readonly eventEmitter = new vscode.EventEmitter<JasmineEventTuple>();
+  private readonly errorEmitter = new vscode.EventEmitter<string>();
+  private readonly sockets = new Set<Socket>();
+  private readonly server: Server;
+  private connected = false;
+
+  /**
+   * Fired when an event comes in from the reporter.
+   */
+  public readonly onEvent = this.eventEmitter.event;
+
+  /**
+   * Fired when the reporter sends something that isn't an event.
+   */
+  public readonly onInvalidMessage = this.errorEmitter.event;
+
+  /**
+   * Opens a channel at a new address.
+   */
+  public static async open() {
+    const id = `vscode-test-reporter-${process.pid}-${randomBytes(4).toString('hex')}`;
+    const address =
+      process.platform === 'win32' ? `\\\\.\\pipe\\${id}` : path.join(tmpdir(), `${id}.sock`);
+
+    const channel = new ReporterChannel(address);
+    await new Promise<void>((resolve, reject) => {
+      channel.server.once('error', reject);
+      channel.server.listen(address, () => {
+        channel.server.off('error', reject);
+        resolve();
+      });
+    });
+
+    return channel;
+  }
+
+  private constructor(public readonly address: string) {
+    this.server = createServer(socket => {
+      this.connected = true;
+      this.sockets.add(socket);
+      socket.on('close', () => this.sockets.delete(socket));
+      socket.on('error', () => socket.destroy());
+      socket.pipe(split()).on('data', this.onLine);
+    });
+  }
+
+  /**
+   * Whether the reporter has connected, after which its events are no longer
+   * looked for in the test process' output.
+   */
+  public get isConnected() {
+    return this.connected;
+  }
+
+  /**
+   * Resolves once the reporter has closed its connections, so that no events
+   * still in flight are lost, or after a short timeout.
+   */
+  public drain() {
+    if (!this.sockets.size) {
+      return Promise.resolve();
+    }
+
+    return new Promise<void>(resolve => {
+      const timeout = setTimeout(resolve, DRAIN_TIMEOUT);
+      const onClose = () => {
+        if (!this.sockets.size) {
+          clearTimeout(timeout);
+          resolve();
+        }
+      };
+      this.sockets.forEach(s => s.once('close', onClose));
+    });
+  }
+
+  /**
+   * @override
+   */
+  public dispose() {
+    this.sockets.forEach(s => s.destroy());
+    this.server.close();
+    this.eventEmitter.dispose();
+    this.errorEmitter.dispose();
+  }
+
+  private readonly onLine = (line: string) => {
+    if (!line.trim()) {
+      return;
+    }
+
+    try {
+      const parsed = JSON.parse(line) as unknown;
+      if (parsed instanceof Array && parsed.length === 2 && typeof parsed[0] === 'string') {
+        this.eventEmitter.fire(parsed as JasmineEventTuple);
+        return;
+      }
+    } catch {
+      // reported below
+    }
+
+    this.errorEmitter.fire(line);
+  };
+}
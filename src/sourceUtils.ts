@@ -4,57 +4,549 @@
 
 import * as ts from 'typescript';
 import * as vscode from 'vscode';
-import { TestCase, TestConstruct, TestSuite, VSCodeTest } from './testTree';
+import { TestCase, TestConstruct, TestSuite, VSCodeTest, focusedTag, skippedTag } from './testTree';
 
 const suiteNames = new Set(['suite', 'flakySuite', "describe"]);
 const testNames = new Set(["it", "test"]);
 
+/**
+ * Jasmine's focused and excluded variants, and what they're variants of.
+ */
+const focusedNames = new Map([['fdescribe', 'describe'], ['fit', 'it']]);
+const skippedNames = new Map([['xdescribe', 'describe'], ['xit', 'it']]);
+
+/**
+ * Array methods whose callback is run for each row of a table of cases.
+ */
+const tableMethods = new Set(['forEach', 'map']);
+
 export const enum Action {
-  Skip,
   Recurse,
 }
 
-export const extractTestFromNode = (src: ts.SourceFile, node: ts.Node, parent: VSCodeTest) => {
-  if (!ts.isCallExpression(node)) {
-    return Action.Recurse;
-  }
+export const escapeRe = (s: string) => s.replace(/[.*+\-?^${}()|[\]\\]/g, '\\$&');
 
-  let lhs = node.expression;
-  if (isSkipCall(lhs)) {
-    return Action.Skip;
-  }
+/**
+ * A test name worked out from the source. Parts whose value isn't known
+ * statically are shown as they're written, e.g. `renders ${label}`, and
+ * `pattern` then matches the names they may stand for.
+ */
+interface IStaticName {
+  text: string;
+  pattern?: string;
+}
 
-  if (isPropertyCall(lhs) && lhs.name.text === 'only') {
-    lhs = lhs.expression;
+type Bindings = ReadonlyMap<string, ts.Expression>;
+
+/**
+ * What's known about the code tests are declared in, when it's run once for
+ * each row of a table, e.g. `[['a', 1], ['b', 2]].forEach(([name, n]) => ...)`.
+ */
+export interface ITestScope {
+  /**
+   * Values of the callback's parameters, or the loop's variables, for the row.
+   */
+  bindings: Bindings;
+  /**
+   * Range of the row, which the tests declared directly for it point at.
+   */
+  row?: vscode.Range;
+  /**
+   * Helpers being expanded, innermost last, when tests are declared in one.
+   */
+  calls?: readonly ITestHelper[];
+}
+
+/**
+ * A function that declares tests, such as `function itBehavesLikeAForm(fixture) { it(...) }`,
+ * called from several suites to share tests between them.
+ */
+export interface ITestHelper {
+  src: ts.SourceFile;
+  /**
+   * File the helper is in, if it's imported from another file.
+   */
+  uri?: vscode.Uri;
+  params: readonly ts.BindingName[];
+  body: ts.Node;
+  /**
+   * Helpers that can be called from the helper's body, by name.
+   */
+  helpers: ReadonlyMap<string, ITestHelper>;
+}
+
+export const extractTestFromNode = (
+  src: ts.SourceFile,
+  node: ts.Node,
+  parent: VSCodeTest,
+  scope?: ITestScope
+) => {
+  if (!ts.isCallExpression(node)) {
+    return Action.Recurse;
   }
 
+  const callee = getCallee(node.expression);
   const name = node.arguments[0];
   const func = node.arguments[1];
-  if (!name || !ts.isIdentifier(lhs) || !ts.isStringLiteralLike(name)) {
+  if (!name || !func || !callee) {
     return Action.Recurse;
   }
 
-  if (!func) {
+  const isTest = testNames.has(callee.name);
+  if (!isTest && !suiteNames.has(callee.name)) {
     return Action.Recurse;
   }
 
-  const start = src.getLineAndCharacterOfPosition(name.pos);
-  const end = src.getLineAndCharacterOfPosition(func.end);
-  const range = new vscode.Range(
+  const range = scope?.row ?? getRange(src, name.pos, func.end);
+  const cparent = parent instanceof TestConstruct ? parent : undefined;
+  const tags = callee.tag ? [callee.tag] : [];
+  const { text, pattern } = evaluateName(src, name, scope?.bindings);
+  return isTest
+    ? new TestCase(text, range, cparent, tags, pattern)
+    : new TestSuite(text, range, cparent, tags, pattern);
+};
+
+/**
+ * Gets the tables of cases iterated with `forEach`, `map` or `for...of`,
+ * whose rows are array literals, along with the code run for each row and
+ * what's known about it. Tests declared there are expanded once per row.
+ */
+export const extractTableRows = (src: ts.SourceFile, node: ts.Node, scope?: ITestScope) => {
+  let table: ts.Expression;
+  let params: readonly (ts.BindingName | undefined)[];
+  let body: ts.Node;
+  if (
+    ts.isCallExpression(node) &&
+    ts.isPropertyAccessExpression(node.expression) &&
+    tableMethods.has(node.expression.name.text)
+  ) {
+    const callback = node.arguments[0];
+    if (!callback || !(ts.isArrowFunction(callback) || ts.isFunctionExpression(callback))) {
+      return undefined;
+    }
+    table = node.expression.expression;
+    params = callback.parameters.map(p => p.name);
+    body = callback.body;
+  } else if (
+    ts.isForOfStatement(node) &&
+    ts.isVariableDeclarationList(node.initializer) &&
+    node.initializer.declarations.length === 1
+  ) {
+    table = node.expression;
+    params = [node.initializer.declarations[0].name];
+    body = node.statement;
+  } else {
+    return undefined;
+  }
+
+  const rows = resolveValue(src, table, scope?.bindings);
+  if (!rows || !ts.isArrayLiteralExpression(rows) || rows.elements.some(ts.isSpreadElement)) {
+    return undefined;
+  }
+
+  const scopes = rows.elements.map((row, index): ITestScope => {
+    const bindings = new Map(scope?.bindings);
+    const [value, indexParam] = params;
+    if (value) {
+      bind(src, value, row, bindings);
+    }
+    if (indexParam) {
+      bind(src, indexParam, ts.factory.createNumericLiteral(index), bindings);
+    }
+    return { bindings, row: getRange(src, row.getStart(src), row.end) };
+  });
+
+  return { body, scopes };
+};
+
+/**
+ * Gets the functions declared in the file that declare tests, by name.
+ */
+export const getTestHelpers = (src: ts.SourceFile, uri?: vscode.Uri) => {
+  const helpers = new Map<string, ITestHelper>();
+  const add = (name: ts.Node | undefined, fn: ts.SignatureDeclarationBase & { body?: ts.Node }) => {
+    if (name && ts.isIdentifier(name) && fn.body && declaresTests(fn.body)) {
+      const params = fn.parameters.map(p => p.name);
+      helpers.set(name.text, { src, uri, params, body: fn.body, helpers });
+    }
+  };
+
+  const visit = (node: ts.Node) => {
+    if (ts.isFunctionDeclaration(node)) {
+      add(node.name, node);
+    } else if (
+      ts.isVariableDeclaration(node) &&
+      node.initializer &&
+      (ts.isArrowFunction(node.initializer) || ts.isFunctionExpression(node.initializer))
+    ) {
+      add(node.name, node.initializer);
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(src);
+  return helpers;
+};
+
+/**
+ * Gets the names imported from relative paths and called in the file, which
+ * may be helpers that declare tests, along with the path and the name
+ * they're exported as.
+ */
+export const getHelperImports = (src: ts.SourceFile) => {
+  const called = new Set<string>();
+  ts.forEachChild(src, function visit(node) {
+    if (ts.isCallExpression(node) && ts.isIdentifier(node.expression)) {
+      called.add(node.expression.text);
+    }
+    ts.forEachChild(node, visit);
+  });
+
+  const imports: { name: string; exportedAs: string; path: string }[] = [];
+  for (const statement of src.statements) {
+    if (
+      !ts.isImportDeclaration(statement) ||
+      !ts.isStringLiteral(statement.moduleSpecifier) ||
+      !statement.moduleSpecifier.text.startsWith('.')
+    ) {
+      continue;
+    }
+
+    const bindings = statement.importClause?.namedBindings;
+    if (bindings && ts.isNamedImports(bindings)) {
+      for (const element of bindings.elements.filter(e => called.has(e.name.text))) {
+        imports.push({
+          name: element.name.text,
+          exportedAs: (element.propertyName ?? element.name).text,
+          path: statement.moduleSpecifier.text,
+        });
+      }
+    }
+  }
+
+  return imports;
+};
+
+const declaresTests = (body: ts.Node): boolean =>
+  !!ts.forEachChild(body, function visit(node): boolean | undefined {
+    if (ts.isCallExpression(node)) {
+      const callee = getCallee(node.expression);
+      if (callee && (testNames.has(callee.name) || suiteNames.has(callee.name))) {
+        return true;
+      }
+    }
+
+    return ts.forEachChild(node, visit);
+  });
+
+/**
+ * Gets the helper a call is to, and what's known about its body for this
+ * call. Helpers aren't followed into again from their own body.
+ */
+export const extractHelperCall = (
+  src: ts.SourceFile,
+  node: ts.Node,
+  helpers: ReadonlyMap<string, ITestHelper>,
+  scope?: ITestScope
+) => {
+  if (!ts.isCallExpression(node) || !ts.isIdentifier(node.expression)) {
+    return undefined;
+  }
+
+  const helper = helpers.get(node.expression.text);
+  if (!helper || scope?.calls?.includes(helper)) {
+    return undefined;
+  }
+
+  const bindings = new Map<string, ts.Expression>();
+  helper.params.forEach((param, i) => {
+    const arg = node.arguments[i];
+    const value = arg && getArgumentValue(src, arg, helper.src, scope?.bindings);
+    if (value) {
+      bind(helper.src, param, value, bindings);
+    }
+  });
+
+  const helperScope: ITestScope = { bindings, calls: [...(scope?.calls ?? []), helper] };
+  return { helper, scope: helperScope };
+};
+
+/**
+ * Gets what a helper's parameter is bound to. Literal objects and arrays are
+ * only passed on within a file, as the names in them would be looked up in
+ * the wrong one, otherwise only values that fold into a string are.
+ */
+const getArgumentValue = (
+  src: ts.SourceFile,
+  arg: ts.Expression,
+  target: ts.SourceFile,
+  bindings: Bindings | undefined
+) => {
+  const value = resolveValue(src, arg, bindings);
+  if (
+    value &&
+    target === src &&
+    (ts.isArrayLiteralExpression(value) || ts.isObjectLiteralExpression(value))
+  ) {
+    return value;
+  }
+
+  const name = evaluateName(src, arg, bindings);
+  return name.pattern === undefined ? ts.factory.createStringLiteral(name.text) : undefined;
+};
+
+const getRange = (src: ts.SourceFile, pos: number, endPos: number) => {
+  const start = src.getLineAndCharacterOfPosition(pos);
+  const end = src.getLineAndCharacterOfPosition(endPos);
+  return new vscode.Range(
     new vscode.Position(start.line, start.character),
     new vscode.Position(end.line, end.character)
   );
+};
 
-  const cparent = parent instanceof TestConstruct ? parent : undefined;
-  if (testNames.has(lhs.escapedText.toString())) {
-    return new TestCase(name.text, range, cparent);
+/**
+ * Binds the names a row is destructured into to the row's values.
+ */
+const bind = (
+  src: ts.SourceFile,
+  name: ts.BindingName,
+  value: ts.Expression,
+  bindings: Map<string, ts.Expression>
+) => {
+  if (ts.isIdentifier(name)) {
+    bindings.set(name.text, value);
+    return;
+  }
+
+  const resolved = resolveValue(src, value, bindings);
+  if (ts.isArrayBindingPattern(name) && resolved && ts.isArrayLiteralExpression(resolved)) {
+    name.elements.forEach((element, i) => {
+      const elementValue = resolved.elements[i];
+      if (ts.isBindingElement(element) && !element.dotDotDotToken && elementValue) {
+        bind(src, element.name, elementValue, bindings);
+      }
+    });
+  } else if (ts.isObjectBindingPattern(name) && resolved && ts.isObjectLiteralExpression(resolved)) {
+    for (const element of name.elements) {
+      const key = element.propertyName ?? element.name;
+      const property =
+        ts.isIdentifier(key) || ts.isStringLiteral(key) ? getProperty(resolved, key.text) : undefined;
+      if (property && !element.dotDotDotToken) {
+        bind(src, element.name, property, bindings);
+      }
+    }
   }
+};
 
-  if (suiteNames.has(lhs.escapedText.toString())) {
-    return new TestSuite(name.text, range, cparent);
+/**
+ * Follows identifiers to the value they're bound or initialized to.
+ */
+const resolveValue = (
+  src: ts.SourceFile,
+  node: ts.Expression,
+  bindings: Bindings | undefined,
+  seen: ReadonlySet<string> = new Set()
+): ts.Expression | undefined => {
+  if (ts.isParenthesizedExpression(node) || ts.isAsExpression(node)) {
+    return resolveValue(src, node.expression, bindings, seen);
   }
 
-  return Action.Recurse;
+  if (!ts.isIdentifier(node)) {
+    return node;
+  }
+
+  const value = seen.has(node.text) ? undefined : lookup(src, node.text, bindings);
+  return value && resolveValue(src, value, bindings, new Set([...seen, node.text]));
+};
+
+const lookup = (src: ts.SourceFile, name: string, bindings: Bindings | undefined) =>
+  bindings?.get(name) ?? getConstants(src).get(name);
+
+const getProperty = (object: ts.ObjectLiteralExpression, key: string) => {
+  for (const property of object.properties) {
+    const name = property.name;
+    if (!name || !(ts.isIdentifier(name) || ts.isStringLiteral(name)) || name.text !== key) {
+      continue;
+    }
+
+    if (ts.isPropertyAssignment(property)) {
+      return property.initializer;
+    }
+
+    if (ts.isShorthandPropertyAssignment(property)) {
+      return property.name;
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Gets the value of `row.name`, `row[0]` and the like, when the object or
+ * array is a literal.
+ */
+const getMember = (
+  src: ts.SourceFile,
+  node: ts.PropertyAccessExpression | ts.ElementAccessExpression,
+  bindings: Bindings | undefined
+) => {
+  const target = resolveValue(src, node.expression, bindings);
+  const key = ts.isPropertyAccessExpression(node)
+    ? node.name.text
+    : ts.isStringLiteralLike(node.argumentExpression) || ts.isNumericLiteral(node.argumentExpression)
+      ? node.argumentExpression.text
+      : undefined;
+  if (!target || key === undefined) {
+    return undefined;
+  }
+
+  if (ts.isObjectLiteralExpression(target)) {
+    return getProperty(target, key);
+  }
+
+  if (ts.isArrayLiteralExpression(target) && /^\d+$/.test(key)) {
+    const element = target.elements[Number(key)];
+    return element && !ts.isSpreadElement(element) ? element : undefined;
+  }
+
+  return undefined;
+};
+
+/**
+ * Folds a test's name argument into a string, resolving template literals,
+ * concatenations, `SomeClass.name`, `const`s declared in the file, and the
+ * values of the row of a table the test is declared for.
+ */
+const evaluateName = (
+  src: ts.SourceFile,
+  node: ts.Expression,
+  bindings?: Bindings,
+  seen: ReadonlySet<string> = new Set()
+): IStaticName => {
+  if (ts.isStringLiteralLike(node)) {
+    return { text: node.text };
+  }
+
+  if (ts.isNumericLiteral(node)) {
+    return { text: String(Number(node.text)) };
+  }
+
+  if (ts.isParenthesizedExpression(node) || ts.isAsExpression(node)) {
+    return evaluateName(src, node.expression, bindings, seen);
+  }
+
+  if (ts.isTemplateExpression(node)) {
+    return node.templateSpans.reduce(
+      (name, span) =>
+        concatNames(concatNames(name, evaluateName(src, span.expression, bindings, seen)), {
+          text: span.literal.text,
+        }),
+      { text: node.head.text } as IStaticName
+    );
+  }
+
+  if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.PlusToken) {
+    return concatNames(
+      evaluateName(src, node.left, bindings, seen),
+      evaluateName(src, node.right, bindings, seen)
+    );
+  }
+
+  if (ts.isPropertyAccessExpression(node) || ts.isElementAccessExpression(node)) {
+    const member = getMember(src, node, bindings);
+    if (member) {
+      return evaluateName(src, member, bindings, seen);
+    }
+  }
+
+  // `describe(AppComponent.name, ...)`, as Angular specs often do
+  if (
+    ts.isPropertyAccessExpression(node) &&
+    ts.isIdentifier(node.expression) &&
+    node.name.text === 'name' &&
+    !lookup(src, node.expression.text, bindings)
+  ) {
+    return { text: node.expression.text };
+  }
+
+  if (ts.isIdentifier(node) && !seen.has(node.text)) {
+    const value = lookup(src, node.text, bindings);
+    if (value) {
+      return evaluateName(src, value, bindings, new Set([...seen, node.text]));
+    }
+  }
+
+  return { text: `\${${node.getText(src)}}`, pattern: '.*' };
+};
+
+const concatNames = (a: IStaticName, b: IStaticName): IStaticName => ({
+  text: a.text + b.text,
+  pattern:
+    a.pattern === undefined && b.pattern === undefined
+      ? undefined
+      : (a.pattern ?? escapeRe(a.text)) + (b.pattern ?? escapeRe(b.text)),
+});
+
+const constantsCache = new WeakMap<ts.SourceFile, Map<string, ts.Expression | undefined>>();
+
+/**
+ * Gets the initializers of the `const`s declared anywhere in the file. Names
+ * declared more than once map to undefined, as there's no telling which one
+ * a test uses.
+ */
+const getConstants = (src: ts.SourceFile) => {
+  const cached = constantsCache.get(src);
+  if (cached) {
+    return cached;
+  }
+
+  const found = new Map<string, ts.Expression | undefined>();
+  const visit = (node: ts.Node) => {
+    if (ts.isVariableDeclarationList(node) && node.flags & ts.NodeFlags.Const) {
+      for (const decl of node.declarations) {
+        if (ts.isIdentifier(decl.name) && decl.initializer) {
+          found.set(decl.name.text, found.has(decl.name.text) ? undefined : decl.initializer);
+        }
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(src);
+  constantsCache.set(src, found);
+  return found;
+};
+
+/**
+ * Gets the function a test or suite is declared with, so `fit` and `it.only`
+ * are both `it` with the focused tag, and `xit` and `it.skip` are both `it`
+ * with the skipped tag.
+ */
+const getCallee = (lhs: ts.LeftHandSideExpression) => {
+  if (ts.isIdentifier(lhs)) {
+    const name = lhs.text;
+    if (focusedNames.has(name)) {
+      return { name: focusedNames.get(name)!, tag: focusedTag };
+    }
+
+    if (skippedNames.has(name)) {
+      return { name: skippedNames.get(name)!, tag: skippedTag };
+    }
+
+    return { name };
+  }
+
+  if (isPropertyCall(lhs) && lhs.name.text === 'only') {
+    return { name: lhs.expression.text, tag: focusedTag };
+  }
+
+  if (isPropertyCall(lhs) && lhs.name.text === 'skip') {
+    return { name: lhs.expression.text, tag: skippedTag };
+  }
+
+  return undefined;
 };
 
 const isPropertyCall = (
@@ -63,6 +555,3 @@ const isPropertyCall = (
   ts.isPropertyAccessExpression(lhs) &&
   ts.isIdentifier(lhs.expression) &&
   ts.isIdentifier(lhs.name);
-
-const isSkipCall = (lhs: ts.LeftHandSideExpression) =>
-  isPropertyCall(lhs) && suiteNames.has(lhs.expression.text) && lhs.name.text === 'skip';
@@ -0,0 +1,114 @@
+import * as assert from 'assert';
+import { ChildProcessWithoutNullStreams } from 'child_process';
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+import * as vscode from 'vscode';
+import { JestOutputScanner, scanTestOutput } from '../testOutputScanner';
+import { TestFile, itemData } from '../testTree';
+
+const spec = `
+describe('A', () => {
+  it('one', () => {});
+  it('two', () => {});
+});
+
+describe('B', () => {
+  it('three', () => {});
+});
+`;
+
+const getTree = (items: vscode.TestItemCollection): unknown[] => {
+  const tree: unknown[] = [];
+  items.forEach(item => tree.push([item.id, item.description, getTree(item.children)]));
+  return tree;
+};
+
+suite('JestOutputScanner', () => {
+  let dir: string;
+  let ctrl: vscode.TestController;
+
+  setup(async () => {
+    dir = await fs.mkdtemp(path.join(tmpdir(), 'vscode-jest-scanner-test-'));
+    ctrl = vscode.tests.createTestController('jestOutputScannerTest', 'Jest Output Scanner Test');
+  });
+
+  teardown(async () => {
+    ctrl.dispose();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('reports a single test without changing the tree', async () => {
+    const specFile = path.join(dir, 'a.spec.ts');
+    const folder: vscode.WorkspaceFolder = { uri: vscode.Uri.file(dir), name: 'test', index: 0 };
+    const data = new TestFile(vscode.Uri.file(specFile), folder);
+    const file = ctrl.createTestItem(data.getId(), data.getLabel(), data.uri);
+    itemData.set(file, data);
+    ctrl.items.add(file);
+    await data.updateFromContents(ctrl, spec, file);
+
+    const three = file.children.get('B')!.children.get('B three')!;
+    const before = getTree(ctrl.items);
+
+    // Jest reports the tests it filtered out with `-t` as pending
+    const resultsFile = path.join(dir, 'results.json');
+    const assertion = (ancestorTitles: string[], title: string, status: string) => ({
+      ancestorTitles,
+      title,
+      fullName: [...ancestorTitles, title].join(' '),
+      status,
+      duration: status === 'passed' ? 1 : null,
+      failureMessages: [],
+    });
+    await fs.writeFile(
+      resultsFile,
+      JSON.stringify({
+        numTotalTests: 3,
+        numTotalTestSuites: 1,
+        numPassedTests: 1,
+        numFailedTests: 0,
+        numPendingTests: 2,
+        startTime: Date.now(),
+        testResults: [
+          {
+            name: specFile,
+            status: 'passed',
+            message: '',
+            assertionResults: [
+              assertion(['A'], 'one', 'pending'),
+              assertion(['A'], 'two', 'pending'),
+              assertion(['B'], 'three', 'passed'),
+            ],
+          },
+        ],
+      })
+    );
+
+    const process = Object.assign(new EventEmitter(), {
+      stdout: new PassThrough(),
+      stderr: new PassThrough(),
+      kill: () => true,
+    }) as unknown as ChildProcessWithoutNullStreams;
+    const scanner = new JestOutputScanner(process, resultsFile);
+    const task = ctrl.createTestRun(new vscode.TestRunRequest([three]));
+    const cts = new vscode.CancellationTokenSource();
+    const scanned = scanTestOutput(
+      new Map([['B three', [three]]]),
+      task,
+      scanner,
+      ctrl,
+      folder,
+      undefined,
+      undefined,
+      cts.token
+    );
+
+    process.emit('exit', 0);
+    await scanned;
+    cts.dispose();
+
+    assert.deepStrictEqual(getTree(ctrl.items), before);
+  });
+});
@@ -10,11 +10,33 @@ import {
 } from '@jridgewell/trace-mapping';
 import styles from 'ansi-styles';
 import { ChildProcessWithoutNullStreams } from 'child_process';
+import { promises as fs } from 'fs';
+import * as http from 'http';
+import * as https from 'https';
 import { decode as base64Decode } from 'js-base64';
+import * as path from 'path';
 import * as split from 'split2';
 import * as vscode from 'vscode';
+import { IAngularProject } from './angularProjects';
+import {
+  CompileErrorParser,
+  ICompileError,
+  clearCompileErrors,
+  getCompileErrorRange,
+  getCompileErrorUri,
+  publishCompileErrors,
+} from './compileErrors';
 import { coverageContext } from './coverageProvider';
-import { getContentFromFilesystem } from './testTree';
+import { ReporterChannel } from './reporterChannel';
+import {
+  TestCase,
+  TestConstruct,
+  TestFile,
+  TestProject,
+  TestSuite,
+  getContentFromFilesystem,
+  itemData,
+} from './testTree';
 
 export const enum JasmineEvent {
   Start = 'jasmineStarted',
@@ -23,6 +45,7 @@ export const enum JasmineEvent {
   TestStart = 'specStarted',
   TestFinished = "specDone",
   End = 'jasmineDone',
+  Log = 'browserLog',
 }
 
 export interface IStartEvent {
@@ -34,36 +57,112 @@ export interface ITestStartEvent {
   fullTitle: string;
   currentRetry: number;
   speed: string;
+  /**
+   * Browser the spec ran in, e.g. `Firefox 120.0 (Linux x86_64)`, which
+   * tells results apart when several browsers run the tests.
+   */
+  browser?: string;
+  /**
+   * Spec file the spec is in, as a path or URL.
+   */
+  file?: string;
+  /**
+   * Descriptions of the suites the spec is in, outermost first.
+   */
+  suitePath?: string[];
 }
 
 export interface ISuiteStartEvent {
   title: string;
   fullTitle: string;
+  browser?: string;
+  /**
+   * Spec file the suite is in, as a path or URL.
+   */
+  file?: string;
+}
+
+/**
+ * An expectation or error that failed in a spec or suite, as in Jasmine's
+ * `failedExpectations`.
+ */
+export interface IFailedExpectation {
+  message: string;
+  stack?: string;
+  expected?: unknown;
+  actual?: unknown;
 }
 
 export interface ISuiteFinishEvent extends ISuiteStartEvent {
   duration: number;
+  /**
+   * Jasmine's suite status; `failed` when a `beforeAll` or `afterAll` threw.
+   */
+  status?: 'passed' | 'failed' | 'excluded';
+  failedExpectations?: IFailedExpectation[];
 }
 
 export interface ITestCompleteEvent extends ITestStartEvent {
   duration: number;
   passed: boolean;
+  /**
+   * Jasmine's spec status. `pending` specs were skipped with `xit()` or
+   * `pending()`, `excluded` ones were filtered out, e.g. by an `fit()`
+   * elsewhere. Reporters that don't send it only set `passed`.
+   */
+  status?: 'passed' | 'failed' | 'pending' | 'excluded';
+  /**
+   * Reason given to `pending()` or `xit()`.
+   */
+  pendingReason?: string;
   reason?: string;
   expected?: string;
   actual?: string;
   err?: string;
   stack?: string;
+  /**
+   * Every expectation that failed in the spec. `err`, `stack`, `expected`
+   * and `actual` only describe the first one.
+   */
+  failedExpectations?: IFailedExpectation[];
   snapshotPath?: string;
 }
 
 export interface IEndEvent {
-  suites: number;
-  tests: number;
-  passes: number;
-  pending: number;
-  failures: number;
-  start: string /* ISO date */;
-  end: string /* ISO date */;
+  suites?: number;
+  tests?: number;
+  passes?: number;
+  pending?: number;
+  failures?: number;
+  start?: string /* ISO date */;
+  end?: string /* ISO date */;
+  /**
+   * Jasmine's overall status. Runs are `incomplete` when, for instance, an
+   * `fit()` or `fdescribe()` was found.
+   */
+  overallStatus?: 'passed' | 'failed' | 'incomplete';
+  incompleteReason?: string;
+  /**
+   * Errors thrown outside of any suite, e.g. in a top-level `afterAll`.
+   */
+  failedExpectations?: IFailedExpectation[];
+}
+
+/**
+ * A console call made in the browser.
+ */
+export interface ILogEvent {
+  level: 'log' | 'info' | 'warn' | 'error' | 'debug';
+  message: string;
+  /**
+   * Where the console method was called, as a `url:line:column` stack frame.
+   */
+  source?: string;
+  /**
+   * Full name of the spec that was running, if the reporter knows it.
+   */
+  fullTitle?: string;
+  browser?: string;
 }
 
 export type JasmineEventTuple =
@@ -72,7 +171,8 @@ export type JasmineEventTuple =
   | [JasmineEvent.SuiteStarted, ISuiteStartEvent]
   | [JasmineEvent.TestFinished, ITestCompleteEvent]
   | [JasmineEvent.SuiteFinished, ISuiteFinishEvent]
-  | [JasmineEvent.End, IEndEvent];
+  | [JasmineEvent.End, IEndEvent]
+  | [JasmineEvent.Log, ILogEvent];
 
 export class TestOutputScanner implements vscode.Disposable {
   protected jasmineEventEmitter = new vscode.EventEmitter<JasmineEventTuple>();
@@ -94,21 +194,40 @@ export class TestOutputScanner implements vscode.Disposable {
    */
   public readonly onRunnerExit = this.onExitEmitter.event;
 
-  constructor(private readonly process: ChildProcessWithoutNullStreams, private args?: string[]) {
-    process.stdout!.pipe(split()).on('data', this.processData);
-    process.stdout.pipe(split()).on("message", this.processData);
-    process.stderr.pipe(split()).on("message", this.processData);
-    process.stderr!.pipe(split()).on('data', this.processData);
+  /**
+   * @param channel Channel the reporter may send its events on, which is
+   * disposed of along with the scanner.
+   */
+  constructor(
+    private readonly process: ChildProcessWithoutNullStreams,
+    private args?: string[],
+    private readonly channel?: ReporterChannel
+  ) {
+    this.readOutput(process);
+    channel?.onEvent(evt => this.jasmineEventEmitter.fire(evt));
+    channel?.onInvalidMessage(msg => this.outputEventEmitter.fire(`Invalid reporter message: ${msg}`));
     process.on('error', e => this.onExitEmitter.fire(e.message));
-    process.on('exit', code =>
-      this.onExitEmitter.fire(code ? `Test process exited with code ${code}` : undefined)
-    );
+    process.on('exit', code => {
+      // events sent just before exiting may still be on their way
+      (channel ? channel.drain() : Promise.resolve()).then(() => this.onProcessExit(code));
+    });
+  }
+
+  /**
+   * Subscribes to the output of the test process, which carries the
+   * reporter's events unless it sends them on the channel. Called from the
+   * constructor.
+   */
+  protected readOutput(process: ChildProcessWithoutNullStreams) {
+    process.stdout.pipe(split()).on('data', this.processData);
+    process.stderr.pipe(split()).on('data', this.processData);
   }
 
   /**
    * @override
    */
   public dispose() {
+    this.channel?.dispose();
     try {
       this.process.kill();
     } catch {
@@ -116,17 +235,32 @@ export class TestOutputScanner implements vscode.Disposable {
     }
   }
 
+  /**
+   * Called once the test process exits. Subclasses may override this to
+   * flush any results the runner wrote out-of-band before signaling exit.
+   */
+  protected onProcessExit(code: number | null) {
+    this.onExitEmitter.fire(code ? `Test process exited with code ${code}` : undefined);
+  }
+
   protected readonly processData = (data: string) => {
+    if (this.args) {
+      this.outputEventEmitter.fire(`./scripts/test ${this.args.join(' ')}`);
+      this.args = undefined;
+    }
+
+    // once the reporter uses the channel, the output is only for people to read
+    if (this.channel?.isConnected) {
+      this.outputEventEmitter.fire(data);
+      return;
+    }
+
     if (data.includes(": '[")) {
       const dataParts = data.split(': ');
       data = dataParts.pop()!;
       data = data.replace("'", '');
       data = data.replace("'", '');
     }
-    if (this.args) {
-      this.outputEventEmitter.fire(`./scripts/test ${this.args.join(' ')}`);
-      this.args = undefined;
-    }
 
     try {
       const parsed = JSON.parse(data) as unknown;
@@ -141,18 +275,444 @@ export class TestOutputScanner implements vscode.Disposable {
   };
 }
 
+interface IJestAssertionResult {
+  ancestorTitles: string[];
+  title: string;
+  fullName: string;
+  status: 'passed' | 'failed' | 'pending' | 'todo' | 'skipped' | 'disabled';
+  duration?: number | null;
+  failureMessages: string[];
+}
+
+interface IJestTestFileResult {
+  name: string;
+  status: 'passed' | 'failed';
+  message: string;
+  assertionResults: IJestAssertionResult[];
+}
+
+interface IJestResults {
+  numTotalTests: number;
+  numTotalTestSuites: number;
+  numPassedTests: number;
+  numFailedTests: number;
+  numPendingTests: number;
+  startTime: number;
+  testResults: IJestTestFileResult[];
+}
+
+const jestStatuses: { [S in IJestAssertionResult['status']]: ITestCompleteEvent['status'] } = {
+  passed: 'passed',
+  failed: 'failed',
+  pending: 'pending',
+  todo: 'pending',
+  skipped: 'pending',
+  disabled: 'excluded',
+};
+
+/**
+ * Scanner for Jest runs. Jest writes its per-test results to a JSON file
+ * (`--json --outputFile`) when the run finishes; once the process exits, those
+ * results are translated into the same Jasmine events the Karma reporter emits.
+ */
+export class JestOutputScanner extends TestOutputScanner {
+  constructor(
+    process: ChildProcessWithoutNullStreams,
+    private readonly resultsFile: string,
+    args?: string[]
+  ) {
+    super(process, args);
+  }
+
+  /**
+   * @override
+   */
+  protected onProcessExit(code: number | null) {
+    this.emitResults()
+      .catch(e => this.outputEventEmitter.fire(`Error reading Jest results: ${e}`))
+      .finally(() => super.onProcessExit(code));
+  }
+
+  private async emitResults() {
+    let results: IJestResults;
+    try {
+      results = JSON.parse(await fs.readFile(this.resultsFile, 'utf-8'));
+    } catch {
+      return; // no results written, most likely jest failed to start
+    } finally {
+      fs.unlink(this.resultsFile).catch(() => undefined);
+    }
+
+    this.jasmineEventEmitter.fire([JasmineEvent.Start, { total: results.numTotalTests }]);
+
+    for (const file of results.testResults) {
+      if (file.status === 'failed' && !file.assertionResults.length && file.message) {
+        this.outputEventEmitter.fire(file.message);
+      }
+
+      for (const assertion of file.assertionResults) {
+        const fullTitle = [...assertion.ancestorTitles, assertion.title].join(' ');
+        const start: ITestStartEvent = {
+          title: assertion.title,
+          fullTitle,
+          currentRetry: 0,
+          speed: 'fast',
+          file: file.name,
+          suitePath: assertion.ancestorTitles,
+        };
+        this.jasmineEventEmitter.fire([JasmineEvent.TestStart, start]);
+
+        const failure = assertion.failureMessages.join('\n') || undefined;
+        this.jasmineEventEmitter.fire([
+          JasmineEvent.TestFinished,
+          {
+            ...start,
+            duration: assertion.duration ?? 0,
+            passed: assertion.status === 'passed',
+            status: jestStatuses[assertion.status],
+            pendingReason: assertion.status === 'todo' ? 'todo' : undefined,
+            err: failure,
+            stack: failure,
+            failedExpectations: assertion.failureMessages.map(m => ({ message: m, stack: m })),
+          },
+        ]);
+      }
+    }
+
+    this.jasmineEventEmitter.fire([
+      JasmineEvent.End,
+      {
+        suites: results.numTotalTestSuites,
+        tests: results.numTotalTests,
+        passes: results.numPassedTests,
+        pending: results.numPendingTests,
+        failures: results.numFailedTests,
+        start: new Date(results.startTime).toISOString(),
+        end: new Date().toISOString(),
+      },
+    ]);
+  }
+}
+
+/**
+ * Scanner for runs triggered with `karma run` on a server that is kept
+ * running. The events are read from the server's output or reporter
+ * channel, as the run command only echoes what the server's reporters write.
+ */
+export class KarmaServerScanner extends TestOutputScanner {
+  private readonly listener: vscode.Disposable;
+  private finished = false;
+
+  constructor(
+    process: ChildProcessWithoutNullStreams,
+    onServerOutput: vscode.Event<string>,
+    onReporterEvent: vscode.Event<JasmineEventTuple>,
+    args?: string[]
+  ) {
+    super(process, args);
+    this.listener = vscode.Disposable.from(
+      onServerOutput(this.processData),
+      onReporterEvent(evt => this.jasmineEventEmitter.fire(evt))
+    );
+    this.onJasmineEvent(([event]) => {
+      if (event === JasmineEvent.End) {
+        this.finished = true;
+      }
+    });
+  }
+
+  /**
+   * @override
+   */
+  public dispose() {
+    this.listener.dispose();
+    super.dispose();
+  }
+
+  /**
+   * @override
+   */
+  protected readOutput(process: ChildProcessWithoutNullStreams) {
+    process.stdout.resume();
+    process.stderr.resume();
+  }
+
+  /**
+   * @override The run command can exit before the last of the server's
+   * output has been read, so this waits a little for the run to end.
+   */
+  protected onProcessExit(code: number | null) {
+    const exit = () => {
+      this.listener.dispose();
+      super.onProcessExit(code);
+    };
+
+    if (this.finished) {
+      exit();
+      return;
+    }
+
+    const timeout = setTimeout(exit, 2000);
+    this.onJasmineEvent(([event]) => {
+      if (event === JasmineEvent.End) {
+        clearTimeout(timeout);
+        exit();
+      }
+    });
+  }
+}
+
+/**
+ * Creates an item for a spec that ran but wasn't found when its file was
+ * parsed. It's put under the innermost of its suites that has an item, or
+ * else in the file the reporter says it's in, and any suites in between are
+ * created too.
+ */
+function createMissingTest(
+  ctrl: vscode.TestController,
+  suites: Map<string, vscode.TestItem[]>,
+  fileItem: vscode.TestItem | undefined,
+  { title, fullTitle, suitePath }: ITestStartEvent
+) {
+  let parent: vscode.TestItem | undefined;
+  let missingSuites: string[] = [];
+  let name = title;
+  const findSuite = (suiteName: string) => pickInFile(suites.get(suiteName), fileItem);
+
+  if (suitePath) {
+    let depth = suitePath.length;
+    while (depth > 0 && !findSuite(suitePath.slice(0, depth).join(' '))) {
+      depth--;
+    }
+    parent = depth ? findSuite(suitePath.slice(0, depth).join(' ')) : undefined;
+    missingSuites = suitePath.slice(depth);
+  } else {
+    // without the suite path, the longest suite name the title starts with
+    // is taken as the parent, and the rest of the title as the spec's name
+    let parentName = '';
+    for (const suiteName of suites.keys()) {
+      const suite = findSuite(suiteName);
+      if (suite && fullTitle.startsWith(`${suiteName} `) && suiteName.length > parentName.length) {
+        parent = suite;
+        parentName = suiteName;
+      }
+    }
+    name = parent ? fullTitle.slice(parentName.length + 1) : fullTitle;
+  }
+
+  parent ??= fileItem;
+  if (!parent) {
+    console.warn(`Could not find where to put test ${fullTitle}`);
+    return undefined;
+  }
+
+  for (const suiteName of missingSuites) {
+    parent = addMissingItem(ctrl, parent, TestSuite, suiteName);
+    addByName(suites, (itemData.get(parent) as TestSuite).fullName, parent);
+  }
+
+  return addMissingItem(ctrl, parent, TestCase, name);
+}
+
+function addMissingItem(
+  ctrl: vscode.TestController,
+  parent: vscode.TestItem,
+  ctor: typeof TestSuite | typeof TestCase,
+  name: string
+) {
+  const parentData = itemData.get(parent);
+  const range = parent.range ?? new vscode.Range(0, 0, 0, 0);
+  const data = new ctor(name, range, parentData instanceof TestConstruct ? parentData : undefined);
+  const id = data.fullName;
+  const existing = parent.children.get(id);
+  if (existing) {
+    return existing;
+  }
+
+  // there's no telling where in the file it's declared, so it points at its parent
+  const item = ctrl.createTestItem(id, name, parent.uri);
+  item.range = parent.range;
+  item.tags = data.tags;
+  itemData.set(item, data);
+  parent.children.add(item);
+  return item;
+}
+
+/**
+ * Gets the URI of a spec file given by the reporter, which may be a URL, an
+ * absolute path, or a path relative to the workspace folder.
+ */
+function resolveReportedFile(file: string, root: vscode.Uri) {
+  if (/^[a-z][a-z0-9+.-]+:\/\//i.test(file)) {
+    return resolveServedUrl(file, root, true) ?? vscode.Uri.parse(file);
+  }
+
+  return path.isAbsolute(file) ? vscode.Uri.file(file) : vscode.Uri.joinPath(root, file);
+}
+
+/**
+ * Picks the item in the spec file a result was reported in, out of those
+ * with its full name. Results the reporter gives no known file for go to
+ * the first item.
+ */
+const pickInFile = (items: readonly vscode.TestItem[] | undefined, fileItem: vscode.TestItem | undefined) => {
+  if (!fileItem) {
+    return items?.[0];
+  }
+
+  return items?.find(item => {
+    for (let p: vscode.TestItem | undefined = item; p; p = p.parent) {
+      if (p === fileItem) {
+        return true;
+      }
+    }
+    return false;
+  });
+};
+
+const addByName = (items: Map<string, vscode.TestItem[]>, name: string, item: vscode.TestItem) => {
+  const existing = items.get(name);
+  if (!existing) {
+    items.set(name, [item]);
+  } else if (!existing.includes(item)) {
+    existing.push(item);
+  }
+};
+
+function findFileItem(ctrl: vscode.TestController, uri: vscode.Uri) {
+  const id = uri.toString().toLowerCase();
+  let found: vscode.TestItem | undefined;
+  ctrl.items.forEach(item => {
+    const data = itemData.get(item);
+    if (data instanceof TestFile && item.id === id) {
+      found = item;
+    } else if (data instanceof TestProject) {
+      found ??= item.children.get(id);
+    }
+  });
+
+  return found;
+}
+
+/**
+ * Marks the tests that didn't run because of the errors as errored. When no
+ * test ran at all, the build failed, and every test gets all the errors;
+ * otherwise only those in a file with errors get its errors.
+ */
+function reportCompileErrors(
+  task: vscode.TestRun,
+  folder: vscode.WorkspaceFolder,
+  errors: readonly ICompileError[],
+  unreported: Set<vscode.TestItem>,
+  ranAnyTest: boolean
+) {
+  const toMessage = (error: ICompileError) => {
+    const message = new vscode.TestMessage(
+      error.code ? `${error.code}: ${error.message}` : error.message
+    );
+    message.location = new vscode.Location(getCompileErrorUri(error, folder), getCompileErrorRange(error));
+    return message;
+  };
+
+  for (const test of [...unreported]) {
+    const fileErrors = errors.filter(
+      e => getCompileErrorUri(e, folder).toString() === test.uri?.toString()
+    );
+    if (fileErrors.length || !ranAnyTest) {
+      task.errored(test, (fileErrors.length ? fileErrors : errors).map(toMessage));
+      unreported.delete(test);
+    }
+  }
+}
+
+interface IRunSummary {
+  endEvent: IEndEvent | undefined;
+  counts: { passed: number; failed: number; skipped: number };
+  /**
+   * Number of specs enqueued when the run started.
+   */
+  enqueuedCount: number;
+  /**
+   * Number of enqueued specs that no result came in for.
+   */
+  unreportedCount: number;
+  browserError: string | undefined;
+  duration: number;
+}
+
+/**
+ * Writes a summary of the run to its output and the status bar, and warns
+ * when the run ended before all its specs were run.
+ */
+function reportRunSummary(
+  task: vscode.TestRun,
+  { endEvent, counts, enqueuedCount, unreportedCount, browserError, duration }: IRunSummary
+) {
+  const passed = endEvent?.passes ?? counts.passed;
+  const failed = endEvent?.failures ?? counts.failed;
+  const skipped = endEvent?.pending ?? counts.skipped;
+  const elapsed =
+    endEvent?.start && endEvent?.end
+      ? new Date(endEvent.end).getTime() - new Date(endEvent.start).getTime()
+      : duration;
+  const summary = `${passed} passed, ${failed} failed, ${skipped} skipped in ${(elapsed / 1000).toFixed(1)}s`;
+
+  let incomplete: string | undefined;
+  if (endEvent?.overallStatus === 'incomplete') {
+    incomplete = `Incomplete: ${endEvent.incompleteReason ?? 'not all specs were run'}`;
+  } else if (!endEvent && enqueuedCount && unreportedCount) {
+    const ran = enqueuedCount - unreportedCount;
+    incomplete = `${enqueuedCount} specs expected, run ended after ${ran}${browserError ? `: ${browserError}` : ''}`;
+  } else if (unreportedCount) {
+    task.appendOutput(
+      `${styles.yellow.open}${enqueuedCount} specs expected, no result for ${unreportedCount} of them${styles.yellow.close}\r\n`
+    );
+  }
+
+  const color = incomplete ? styles.yellow : failed ? styles.red : styles.green;
+  task.appendOutput(`\r\n${color.open}${summary}${color.close}\r\n`);
+  if (incomplete) {
+    task.appendOutput(`${styles.yellow.open}${incomplete}${styles.yellow.close}\r\n`);
+    vscode.window.showWarningMessage(`Test run incomplete. ${incomplete}`);
+  }
+
+  const icon = incomplete ? '$(warning)' : failed ? '$(error)' : '$(pass)';
+  vscode.window.setStatusBarMessage(`${icon} ${summary}`, 10_000);
+}
+
+interface IBrowserOutcomes {
+  failed: boolean;
+  passedIn: string[];
+  failedIn: string[];
+}
+
 type QueuedOutput = string | [string, vscode.Location | undefined, vscode.TestItem | undefined];
 
 export async function scanTestOutput(
-  tests: Map<string, vscode.TestItem>,
+  tests: Map<string, vscode.TestItem[]>,
   task: vscode.TestRun,
   scanner: TestOutputScanner,
+  ctrl: vscode.TestController,
+  folder: vscode.WorkspaceFolder,
+  project: IAngularProject | undefined,
   coverageDir: string | undefined,
   cancellation: vscode.CancellationToken
 ): Promise<void> {
   const exitBlockers: Set<Promise<unknown>> = new Set();
-  const skippedTests = new Set(tests.values());
-  const store = new SourceMapStore();
+  const skippedTests = new Set([...tests.values()].flat());
+  const suites = getSuitesOf(skippedTests);
+  const findTest = withPatterns(tests);
+  const findSuite = withPatterns(suites);
+  // items of the spec files results were reported in, by the reported path
+  const fileItems = new Map<string, vscode.TestItem | undefined>();
+  const getFileItem = (file: string | undefined) => {
+    if (file !== undefined && !fileItems.has(file)) {
+      fileItems.set(file, findFileItem(ctrl, resolveReportedFile(file, folder.uri)));
+    }
+    return file !== undefined ? fileItems.get(file) : undefined;
+  };
+  const outcomes = new Map<vscode.TestItem, IBrowserOutcomes>();
+  const store = new SourceMapStore(folder.uri);
   let outputQueue = Promise.resolve();
   const enqueueOutput = (fn: QueuedOutput | (() => Promise<QueuedOutput>)) => {
     exitBlockers.delete(outputQueue);
@@ -168,9 +728,32 @@ export async function scanTestOutput(
     prom.finally(() => exitBlockers.delete(prom));
     return prom;
   };
+  // With several browsers, every browser reports each spec and suite. An
+  // item that failed in any of them stays failed.
+  const recordOutcome = (item: vscode.TestItem, browser: string | undefined, passed: boolean) => {
+    let outcome = outcomes.get(item);
+    if (!outcome) {
+      outcome = { failed: false, passedIn: [], failedIn: [] };
+      outcomes.set(item, outcome);
+    }
+
+    outcome.failed ||= !passed;
+    if (browser) {
+      (passed ? outcome.passedIn : outcome.failedIn).push(browser);
+    }
+
+    return outcome;
+  };
 
-  let lastTest: vscode.TestItem | undefined;
   let ranAnyTest = false;
+  let endEvent: IEndEvent | undefined;
+  // last browser error Karma logged, which explains runs that end early
+  let browserError: string | undefined;
+  const enqueuedCount = skippedTests.size;
+  const counts = { passed: 0, failed: 0, skipped: 0 };
+  const startTime = Date.now();
+  const compileErrorParser = new CompileErrorParser();
+  const compileErrors: ICompileError[] = [];
 
   try {
     if (cancellation.isCancellationRequested) {
@@ -183,6 +766,8 @@ export async function scanTestOutput(
       });
 
       let currentTest: vscode.TestItem | undefined;
+      // browsers run specs side by side, so each has its own current test
+      const runningTests = new Map</* browser */ string, vscode.TestItem>();
 
       scanner.onRunnerExit(err => {
         if (err) {
@@ -192,13 +777,23 @@ export async function scanTestOutput(
       });
 
       scanner.onOtherOutput(str => {
+        if (browserErrorRe.test(str)) {
+          browserError = stripAnsi(str).trim();
+        }
+
+        const compileError = compileErrorParser.push(stripAnsi(str));
+        if (compileError) {
+          compileErrors.push(compileError);
+        }
+
         const match = spdlogRe.exec(str);
         if (!match) {
           enqueueOutput(str + crlf);
           return;
         }
 
-        const logLocation = store.getSourceLocation(match[2], Number(match[3]));
+        // the logged line is 1-based, source map lookups are 0-based
+        const logLocation = store.getSourceLocation(match[2], Number(match[3]) - 1);
         const logContents = replaceAllLocations(store, match[1]);
         const test = currentTest;
 
@@ -215,27 +810,130 @@ export async function scanTestOutput(
         switch (evt[0]) {
           case JasmineEvent.Start:
             break; // no-op
+          case JasmineEvent.SuiteStarted:
+            {
+              const suite = findSuite(evt[1].fullTitle, getFileItem(evt[1].file));
+              if (suite && !outcomes.has(suite)) {
+                task.started(suite);
+              }
+            }
+            break;
+          case JasmineEvent.SuiteFinished:
+            {
+              const { fullTitle, duration, status, failedExpectations, browser, file } = evt[1];
+              const suite = findSuite(fullTitle, getFileItem(file));
+              const label = browser ? `[${browser}] ` : '';
+              if (status === 'excluded') {
+                if (suite) {
+                  task.skipped(suite);
+                }
+                break;
+              }
+
+              // Errors thrown in beforeAll or afterAll are reported on the suite
+              const failures = failedExpectations ?? [];
+              if (!failures.length) {
+                if (suite && !recordOutcome(suite, browser, true).failed) {
+                  task.passed(suite, duration);
+                }
+                break;
+              }
+
+              enqueueOutput(`${styles.red.open} x ${label}${fullTitle}${styles.red.close}\r\n`);
+              for (const { message, stack } of failures) {
+                const rawErr = forceCRLF(stack || message);
+                enqueueOutput(async () => [await replaceAllLocations(store, rawErr), undefined, suite]);
+              }
+
+              if (!suite) {
+                break;
+              }
+
+              recordOutcome(suite, browser, false);
+              enqueueExitBlocker(
+                (async () => {
+                  const messages = await Promise.all(
+                    failures.map(async ({ message, stack }) => {
+                      const msg = new vscode.TestMessage(
+                        label + (stack ? await sourcemapStack(store, stack) : message)
+                      );
+                      msg.location =
+                        (stack && (await tryDeriveStackLocation(store, stack, suite))) ||
+                        getFirstLine(suite);
+                      return msg;
+                    })
+                  );
+                  task.failed(suite, messages, duration);
+                })()
+              );
+            }
+            break;
           case JasmineEvent.TestStart:
-            currentTest = tests.get(evt[1].fullTitle);
+            currentTest = findTest(evt[1].fullTitle, getFileItem(evt[1].file));
             if (!currentTest) {
-              console.warn(`Could not find test ${evt[1].fullTitle}`);
-              return;
+              return; // created when it finishes, unless it was excluded
             }
             skippedTests.delete(currentTest);
-            task.started(currentTest);
+            runningTests.set(evt[1].browser ?? '', currentTest);
+            if (!outcomes.has(currentTest)) {
+              currentTest.description = undefined;
+              task.started(currentTest);
+            }
             ranAnyTest = true;
             break;
           case JasmineEvent.TestFinished:
             {
               const title = evt[1].fullTitle;
-              const tcase = tests.get(title);
-              const result = evt[1].passed;
-              enqueueOutput(` ${styles.green.open}√${styles.green.close} ${title}\r\n`);
+              const { status, pendingReason, browser } = evt[1];
+              const fileItem = getFileItem(evt[1].file);
+              const label = browser ? `[${browser}] ` : '';
+              let tcase = findTest(title, fileItem);
+              if (tcase && runningTests.get(browser ?? '') === tcase) {
+                runningTests.delete(browser ?? '');
+              }
+
+              if (status === 'pending' || status === 'excluded') {
+                // Specs that weren't asked for, such as those Jest filtered
+                // out with `-t` and reports as pending, are left alone
+                if (!tcase) {
+                  break;
+                }
+
+                const description =
+                  status === 'excluded'
+                    ? 'excluded'
+                    : `skipped${pendingReason ? `: ${pendingReason}` : ''}`;
+                enqueueOutput([
+                  ` ${styles.yellow.open}-${styles.yellow.close} ${label}${title} (${description})\r\n`,
+                  getFirstLine(tcase),
+                  tcase,
+                ]);
+                counts.skipped++;
+                tcase.description = description;
+                skippedTests.delete(tcase);
+                task.skipped(tcase);
+                break;
+              }
+
+              // Specs that static discovery missed, e.g. ones defined in a
+              // loop, get an item now rather than their result being lost
+              if (!tcase) {
+                tcase = createMissingTest(ctrl, suites, fileItem, evt[1]);
+                if (tcase) {
+                  addByName(tests, title, tcase);
+                  task.started(tcase);
+                  ranAnyTest = true;
+                }
+              }
+
+              const result = status ? status === 'passed' : evt[1].passed;
+              counts[result ? 'passed' : 'failed']++;
+              enqueueOutput(` ${styles.green.open}√${styles.green.close} ${label}${title}\r\n`);
               if (tcase) {
                 if (result) {
-                lastTest = tcase;
-                task.passed(tcase, evt[1].duration);
-                tests.delete(title);
+                if (!recordOutcome(tcase, browser, true).failed) {
+                  task.passed(tcase, evt[1].duration);
+                }
               } else {
                 {
                   const {
@@ -244,58 +942,50 @@ export async function scanTestOutput(
                     duration,
                     expected,
                     actual,
+                    failedExpectations,
                     fullTitle: id,
                   } = evt[1];
-                  let tcase = tests.get(id);
-                  // report failures on hook to the last-seen test, or first test if none run yet
-                  if (!tcase && (id.includes('hook for') || id.includes('hook in'))) {
-                    tcase = lastTest ?? tests.values().next().value;
-                  }
-    
-                  enqueueOutput(`${styles.red.open} x ${id}${styles.red.close}\r\n`);
-                  const rawErr = stack || err;
-                  const locationsReplaced = replaceAllLocations(store, forceCRLF(rawErr!));
-                  if (rawErr) {
-                    enqueueOutput(async () => [await locationsReplaced, undefined, tcase]);
-                  }
+                  // Each failed expect() gets its own message, so that every
+                  // failing line is shown in the editor
+                  const failures: IFailedExpectation[] = failedExpectations?.length
+                    ? failedExpectations
+                    : [{ message: err ?? '', stack, expected, actual }];
     
-                  if (!tcase) {
-                    return;
+                  enqueueOutput(`${styles.red.open} x ${label}${id}${styles.red.close}\r\n`);
+                  const locationsReplaced = failures.map(f =>
+                    replaceAllLocations(store, forceCRLF(f.stack || f.message))
+                  );
+                  for (const [i, f] of failures.entries()) {
+                    if (f.stack || f.message) {
+                      enqueueOutput(async () => [await locationsReplaced[i], undefined, tcase]);
+                    }
                   }
     
-                  tests.delete(id);
-    
-                  const hasDiff =
-                    actual !== undefined &&
-                    expected !== undefined &&
-                    (expected !== '[undefined]' || actual !== '[undefined]');
-                  const testFirstLine =
-                    tcase.range &&
-                    new vscode.Location(
-                      tcase.uri!,
-                      new vscode.Range(
-                        tcase.range.start,
-                        new vscode.Position(tcase.range.start.line, 100)
-                      )
-                    );
+                  recordOutcome(tcase, browser, false);
     
                   enqueueExitBlocker(
                     (async () => {
-                      const location = await tryDeriveStackLocation(store, rawErr!, tcase!);
-                      let message: vscode.TestMessage;
-    
-                      if (hasDiff) {
-                        message = new vscode.TestMessage(tryMakeMarkdown(err!));
-                        message.actualOutput = outputToString(actual);
-                        message.expectedOutput = outputToString(expected);
-                      } else {
-                        message = new vscode.TestMessage(
-                          stack ? await sourcemapStack(store, stack) : await locationsReplaced
-                        );
-                      }
-    
-                      message.location = location ?? testFirstLine;
-                      task.failed(tcase!, message, duration);
+                      const messages = await Promise.all(
+                        failures.map(async (f, i) => {
+                          const location = await tryDeriveStackLocation(store, f.stack || f.message, tcase!);
+                          let message: vscode.TestMessage;
+
+                          if (hasDiff(f)) {
+                            message = new vscode.TestMessage(tryMakeMarkdown(label + f.message));
+                            message.actualOutput = outputToString(f.actual);
+                            message.expectedOutput = outputToString(f.expected);
+                          } else {
+                            message = new vscode.TestMessage(
+                              label + (f.stack ? await sourcemapStack(store, f.stack) : await locationsReplaced[i])
+                            );
+                          }
+
+                          message.location = location ?? getFirstLine(tcase!);
+                          return message;
+                        })
+                      );
+
+                      task.failed(tcase!, messages, duration);
                     })()
                   );
                 }
@@ -304,7 +994,35 @@ export async function scanTestOutput(
           }
             break;
           case JasmineEvent.End:
-            // no-op, we wait until the process exits to ensure coverage is written out
+            // we wait until the process exits to ensure coverage is written out
+            endEvent = evt[1];
+            for (const { message, stack } of evt[1].failedExpectations ?? []) {
+              const rawErr = forceCRLF(stack || message);
+              enqueueOutput(async () => `${styles.red.open}${await replaceAllLocations(store, rawErr)}${styles.red.close}\r\n`);
+            }
+            break;
+          case JasmineEvent.Log:
+            {
+              const { level, message, source, fullTitle, browser } = evt[1];
+              const test =
+                (fullTitle !== undefined ? findTest(fullTitle) : undefined) ??
+                runningTests.get(browser ?? '');
+              locationRe.lastIndex = 0;
+              const sourceMatch = source ? locationRe.exec(source) : null;
+              const logLocation = sourceMatch
+                ? deriveSourceLocation(store, sourceMatch).catch(() => undefined)
+                : undefined;
+              const logContents = replaceAllLocations(store, forceCRLF(message));
+              const color = logColors[level];
+
+              enqueueOutput(() =>
+                Promise.all([logLocation, logContents]).then(([location, contents]) => [
+                  (color ? `${color.open}${contents}${color.close}` : contents) + crlf,
+                  location,
+                  test,
+                ])
+              );
+            }
             break;
         }
       });
@@ -312,12 +1030,43 @@ export async function scanTestOutput(
 
     await Promise.all([...exitBlockers]);
 
+    for (const [item, { passedIn, failedIn }] of outcomes) {
+      if (failedIn.length && passedIn.length) {
+        const message = new vscode.TestMessage(
+          `Failed in ${failedIn.join(', ')} only, passed in ${passedIn.join(', ')}`
+        );
+        message.location = getFirstLine(item);
+        task.failed(item, message);
+      }
+    }
+
+    if (compileErrors.length) {
+      publishCompileErrors(folder, project?.name, compileErrors);
+      reportCompileErrors(task, folder, compileErrors, skippedTests, ranAnyTest);
+    } else if (ranAnyTest) {
+      clearCompileErrors(folder, project?.name);
+    }
+
+    if (!cancellation.isCancellationRequested) {
+      reportRunSummary(task, {
+        endEvent,
+        counts,
+        enqueuedCount,
+        unreportedCount: skippedTests.size,
+        browserError,
+        duration: Date.now() - startTime,
+      });
+    }
+
     if (coverageDir) {
       try {
         await coverageContext.apply(task, coverageDir, {
           mapFileUri: uri => store.getSourceFile(uri.toString()),
-          mapLocation: (uri, position) =>
-            store.getSourceLocation(uri.toString(), position.line, position.character),
+          // Karma and Jest instrument the original sources, so their coverage
+          // usually needs no mapping
+          mapLocation: async (uri, position) =>
+            (await store.getSourceLocation(uri.toString(), position.line, position.character)) ??
+            new vscode.Location(uri, position),
         });
       } catch (e) {
         const msg = `Error loading coverage:\n\n${e}\n`;
@@ -326,7 +1075,7 @@ export async function scanTestOutput(
     }
 
     // no tests? Possible crash, show output:
-    if (!ranAnyTest) {
+    if (!ranAnyTest && !compileErrors.length) {
       await vscode.commands.executeCommand('testing.showMostRecentOutput');
     }
   } catch (e) {
@@ -341,8 +1090,17 @@ export async function scanTestOutput(
 }
 
 const spdlogRe = /"(.+)", source: (file:\/\/\/.*?)+ \(([0-9]+)\)/;
+const browserErrorRe = /Disconnected|have not captured|crashed/i;
+// eslint-disable-next-line no-control-regex
+const stripAnsi = (str: string) => str.replace(/\x1b\[[0-9;]*m/g, '');
 const crlf = '\r\n';
 
+const logColors: { [L in ILogEvent['level']]?: { open: string; close: string } } = {
+  warn: styles.yellow,
+  error: styles.red,
+  debug: styles.gray,
+};
+
 const forceCRLF = (str: string) => str.replace(/(?<!\r)\n/gm, '\r\n');
 
 const sourcemapStack = async (store: SourceMapStore, str: string) => {
@@ -372,6 +1130,73 @@ const sourcemapStack = async (store: SourceMapStore, str: string) => {
   return str;
 };
 
+/**
+ * Gets the suites containing the tests, keyed by their full name.
+ */
+const getSuitesOf = (tests: Iterable<vscode.TestItem>) => {
+  const suites = new Map<string, vscode.TestItem[]>();
+  for (const test of tests) {
+    for (let p = test.parent; p; p = p.parent) {
+      const data = itemData.get(p);
+      if (data instanceof TestSuite) {
+        addByName(suites, data.fullName, p);
+      }
+    }
+  }
+
+  return suites;
+};
+
+/**
+ * Looks items up by the full name a result was reported under, and the item
+ * of the spec file it was reported in. Items whose names couldn't be
+ * resolved statically match it by pattern instead, the most specific
+ * pattern first, and are remembered under it.
+ */
+const withPatterns = (items: Map<string, vscode.TestItem[]>) => {
+  const patterned = [...items.values()]
+    .flat()
+    .flatMap(item => {
+      const data = itemData.get(item);
+      return data instanceof TestConstruct && data.pattern ? [{ item, pattern: data.pattern }] : [];
+    })
+    .sort((a, b) => b.pattern.source.length - a.pattern.source.length);
+
+  return (fullTitle: string, fileItem?: vscode.TestItem) => {
+    const found = pickInFile(items.get(fullTitle), fileItem);
+    if (found || !patterned.length) {
+      return found;
+    }
+
+    const matched = pickInFile(
+      patterned.filter(p => p.pattern.test(fullTitle)).map(p => p.item),
+      fileItem
+    );
+    if (matched) {
+      addByName(items, fullTitle, matched);
+    }
+
+    return matched;
+  };
+};
+
+const getFirstLine = (item: vscode.TestItem) =>
+  item.range &&
+  new vscode.Location(
+    item.uri!,
+    new vscode.Range(item.range.start, new vscode.Position(item.range.start.line, 100))
+  );
+
+/**
+ * Gets whether the expectation compared two values. Jasmine sets both to an
+ * empty string for errors thrown in the spec.
+ */
+const hasDiff = ({ expected, actual }: IFailedExpectation) =>
+  actual !== undefined &&
+  expected !== undefined &&
+  (expected !== '[undefined]' || actual !== '[undefined]') &&
+  (expected !== '' || actual !== '');
+
 const outputToString = (output: unknown) =>
   typeof output === 'object' ? JSON.stringify(output, null, 2) : String(output);
 
@@ -387,16 +1212,89 @@ const tryMakeMarkdown = (message: string) => {
   return new vscode.MarkdownString(lines.join('\n'));
 };
 
-const inlineSourcemapRe = /^\/\/# sourceMappingURL=data:application\/json;base64,(.+)/m;
+const sourceMappingUrlRe = /^\/\/[#@] ?sourceMappingURL=(\S+)\s*$/gm;
 const sourceMapBiases = [GREATEST_LOWER_BOUND, LEAST_UPPER_BOUND] as const;
 
+/**
+ * Files Karma serves from its `basePath`, from absolute paths, and, for the
+ * Angular CLI, from the in-memory build output.
+ */
+const karmaServedRe = /^https?:\/\/[^/]+\/(base|absolute|_karma_webpack_)\/([^?#]*)/;
+const webpackRe = /^webpack:\/\/[^/]*\/([^?#]*)/;
+/**
+ * Karma maps Angular CLI stacks to URLs like
+ * `http://localhost:9876/_karma_webpack_/webpack:/src/app/app.component.spec.ts`.
+ */
+const karmaWebpackSourceRe = /^https?:\/\/[^/]+\/_karma_webpack_\/webpack:\/+([^?#]*)/;
+
+const webpackPathToUri = (path: string, root: vscode.Uri | undefined) => {
+  const relative = path.replace(/^(\.\/)+/, '').replace(/^~\//, 'node_modules/');
+  return root && vscode.Uri.joinPath(root, decodeURIComponent(relative));
+};
+
+/**
+ * Gets the workspace file a `webpack://` URL, or a URL of a file Karma
+ * serves, refers to. Files in the Angular CLI's in-memory output are only
+ * resolved when `inMemoryOutput` is set, as that's where the sources of its
+ * source maps are, but the bundles themselves aren't on disk.
+ */
+const resolveServedUrl = (url: string, root: vscode.Uri | undefined, inMemoryOutput = false) => {
+  const webpack = webpackRe.exec(url) ?? karmaWebpackSourceRe.exec(url);
+  if (webpack) {
+    return webpackPathToUri(webpack[1], root);
+  }
+
+  const served = karmaServedRe.exec(url);
+  if (!served) {
+    return undefined;
+  }
+
+  const [, prefix, path] = served;
+  if (prefix === 'absolute') {
+    return vscode.Uri.file(`/${decodeURIComponent(path)}`);
+  }
+
+  if (prefix === 'base' || inMemoryOutput) {
+    return root && vscode.Uri.joinPath(root, decodeURIComponent(path));
+  }
+
+  return undefined;
+};
+
+const fetchText = (url: string) =>
+  new Promise<string>((resolve, reject) => {
+    const req = (url.startsWith('https:') ? https : http).get(url, { timeout: 5000 }, res => {
+      if (res.statusCode !== 200) {
+        res.resume();
+        reject(new Error(`${url} returned ${res.statusCode}`));
+        return;
+      }
+
+      let body = '';
+      res.setEncoding('utf-8');
+      res.on('data', chunk => (body += chunk));
+      res.on('end', () => resolve(body));
+      res.on('error', reject);
+    });
+    req.on('timeout', () => req.destroy(new Error(`Timed out fetching ${url}`)));
+    req.on('error', reject);
+  });
+
 export class SourceMapStore {
   private readonly cache = new Map</* file uri */ string, Promise<TraceMap | undefined>>();
 
+  /**
+   * @param root Folder that `webpack://` and Karma `/base/` URLs are
+   * relative to.
+   */
+  constructor(private readonly root?: vscode.Uri) {}
+
   async getSourceLocation(fileUri: string, line: number, col = 1) {
     const sourceMap = await this.loadSourceMap(fileUri);
     if (!sourceMap) {
-      return undefined;
+      // stacks that already point at the sources, e.g. through webpack URLs
+      const served = resolveServedUrl(fileUri, this.root);
+      return served && new vscode.Location(served, new vscode.Position(line, col));
     }
 
     for (const bias of sourceMapBiases) {
@@ -435,13 +1333,22 @@ export class SourceMapStore {
   private completeSourceMapUrl(sm: TraceMap, source: string) {
     if (sm.sourceRoot) {
       try {
-        return vscode.Uri.parse(new URL(source, sm.sourceRoot).toString());
+        source = new URL(source, sm.sourceRoot).toString();
       } catch {
         // ignored
       }
     }
 
-    return vscode.Uri.parse(source);
+    return resolveServedUrl(source, this.root, true) ?? vscode.Uri.parse(source);
+  }
+
+  /**
+   * Reads a file, or a file served by Karma while it's running.
+   */
+  private readUrl(url: string) {
+    return /^https?:/.test(url)
+      ? fetchText(url)
+      : getContentFromFilesystem(vscode.Uri.parse(url));
   }
 
   private loadSourceMap(fileUri: string) {
@@ -451,15 +1358,29 @@ export class SourceMapStore {
     }
 
     const promise = (async () => {
+      if (webpackRe.test(fileUri) || karmaWebpackSourceRe.test(fileUri)) {
+        return; // already a source
+      }
+
       try {
-        const contents = await getContentFromFilesystem(vscode.Uri.parse(fileUri));
-        const sourcemapMatch = inlineSourcemapRe.exec(contents);
-        if (!sourcemapMatch) {
+        const contents = await this.readUrl(fileUri);
+        // the last comment is the one that applies
+        const mapUrl = [...contents.matchAll(sourceMappingUrlRe)].pop()?.[1];
+        if (!mapUrl) {
           return;
         }
 
-        const decoded = base64Decode(sourcemapMatch[1]);
-        return new TraceMap(decoded, fileUri);
+        if (mapUrl.startsWith('data:')) {
+          const comma = mapUrl.indexOf(',');
+          const data = mapUrl.slice(comma + 1);
+          const decoded = mapUrl.slice(0, comma).endsWith(';base64')
+            ? base64Decode(data)
+            : decodeURIComponent(data);
+          return new TraceMap(decoded, fileUri);
+        }
+
+        const resolvedMapUrl = new URL(mapUrl, fileUri).toString();
+        return new TraceMap(await this.readUrl(resolvedMapUrl), resolvedMapUrl);
       } catch (e) {
         console.warn(`Error parsing sourcemap for ${fileUri}: ${(e as Error).stack}`);
         return;
@@ -471,7 +1392,7 @@ export class SourceMapStore {
   }
 }
 
-const locationRe = /(file:\/{3}.+):([0-9]+):([0-9]+)/g;
+const locationRe = /((?:file:\/{3}|https?:\/\/|webpack:\/\/)[^\s()]+):([0-9]+):([0-9]+)/g;
 
 async function replaceAllLocations(store: SourceMapStore, str: string) {
   const output: (string | Promise<string>)[] = [];
@@ -548,5 +1469,6 @@ async function tryDeriveStackLocation(
 
 async function deriveSourceLocation(store: SourceMapStore, parts: RegExpMatchArray) {
   const [, fileUri, line, col] = parts;
-  return store.getSourceLocation(fileUri, Number(line), Number(col));
+  // stack positions are 1-based
+  return store.getSourceLocation(fileUri, Number(line) - 1, Number(col) - 1);
 }
@@ -5,7 +5,18 @@
 import * as ts from 'typescript';
 import { TextDecoder } from 'util';
 import * as vscode from 'vscode';
-import { Action, extractTestFromNode } from './sourceUtils';
+import { IAngularProject } from './angularProjects';
+import {
+  Action,
+  ITestHelper,
+  ITestScope,
+  escapeRe,
+  extractHelperCall,
+  extractTableRows,
+  extractTestFromNode,
+  getHelperImports,
+  getTestHelpers,
+} from './sourceUtils';
 
 const textDecoder = new TextDecoder('utf-8');
 const diagnosticCollection = vscode.languages.createDiagnosticCollection('selfhostTestProvider');
@@ -14,45 +25,134 @@ type ContentGetter = (uri: vscode.Uri) => Promise<string>;
 
 export const itemData = new WeakMap<vscode.TestItem, VSCodeTest>();
 
+/**
+ * Tags of tests declared with `fit`, `fdescribe` or `.only`, and of those in
+ * such a suite.
+ */
+export const focusedTag = new vscode.TestTag('focused');
+
+/**
+ * Tags of tests declared with `xit`, `xdescribe` or `.skip`, and of those in
+ * such a suite.
+ */
+export const skippedTag = new vscode.TestTag('skipped');
+
 export const clearFileDiagnostics = (uri: vscode.Uri) => diagnosticCollection.delete(uri);
 
+export const getContentFromFilesystem: ContentGetter = async uri => {
+  try {
+    const rawContent = await vscode.workspace.fs.readFile(uri);
+    return textDecoder.decode(rawContent);
+  } catch (e) {
+    console.warn(`Error providing tests for ${uri.fsPath}`, e);
+    return '';
+  }
+};
+
 /**
- * Tries to guess which workspace folder VS Code is in.
+ * Groups the test files of one project in a multi-project angular.json.
  */
-export const guessWorkspaceFolder = async () => {
-  if (!vscode.workspace.workspaceFolders) {
-    return undefined;
+export class TestProject {
+  constructor(
+    public readonly project: IAngularProject,
+    public readonly workspaceFolder: vscode.WorkspaceFolder
+  ) {}
+
+  public getId() {
+    return `project:${this.workspaceFolder.uri.toString()}#${this.project.name}`;
+  }
+
+  public getLabel() {
+    return this.project.name;
   }
+}
+
+/**
+ * Suffixes tried, in order, to find the file an import's path refers to.
+ */
+const importSuffixes = ['.ts', '/index.ts', '.js', '/index.js'];
+
+/**
+ * Spec files, by the files they import helpers from, so that they're read
+ * again when one of those changes.
+ */
+const helperDependents = new Map<string, Set<string>>();
+
+/**
+ * Gets the spec files that import helpers from the file.
+ */
+export const getHelperDependents = (uri: vscode.Uri) =>
+  [...(helperDependents.get(uri.toString()) ?? [])].map(dependent => vscode.Uri.parse(dependent));
+
+const parseSource = (uri: vscode.Uri, content: string) =>
+  ts.createSourceFile(uri.path.split('/').pop()!, content, ts.ScriptTarget.ESNext, false, ts.ScriptKind.TS);
 
-  if (vscode.workspace.workspaceFolders.length < 2) {
-    return vscode.workspace.workspaceFolders[0];
+/**
+ * Gets the helpers that declare tests the file imports from other files, by
+ * the name they're imported as, and the files that were read for them.
+ */
+const getImportedHelpers = async (uri: vscode.Uri, ast: ts.SourceFile) => {
+  const helpers = new Map<string, ITestHelper>();
+  const files: vscode.Uri[] = [];
+  const modules = new Map<string, Promise<IHelperModule | undefined>>();
+  for (const { name, exportedAs, path } of getHelperImports(ast)) {
+    let module = modules.get(path);
+    if (!module) {
+      module = readHelperModule(vscode.Uri.joinPath(uri, '..', path));
+      modules.set(path, module);
+    }
+
+    const helper = (await module)?.helpers.get(exportedAs);
+    if (helper) {
+      helpers.set(name, helper);
+    }
   }
 
-  for (const folder of vscode.workspace.workspaceFolders) {
-    try {
-      await vscode.workspace.fs.stat(vscode.Uri.joinPath(folder.uri, 'src/vs/loader.js'));
-      return folder;
-    } catch {
-      // ignored
+  for (const module of modules.values()) {
+    const read = await module;
+    if (read) {
+      files.push(read.uri);
     }
   }
 
-  return undefined;
+  return { helpers, files };
 };
 
-export const getContentFromFilesystem: ContentGetter = async uri => {
-  try {
-    const rawContent = await vscode.workspace.fs.readFile(uri);
-    return textDecoder.decode(rawContent);
-  } catch (e) {
-    console.warn(`Error providing tests for ${uri.fsPath}`, e);
-    return '';
+interface IHelperModule {
+  uri: vscode.Uri;
+  helpers: ReadonlyMap<string, ITestHelper>;
+}
+
+const readHelperModule = async (base: vscode.Uri): Promise<IHelperModule | undefined> => {
+  // TypeScript sources written as ES modules import each other by their `.js` output
+  const path = base.path.replace(/\.js$/, '');
+  for (const suffix of importSuffixes) {
+    const uri = base.with({ path: path + suffix });
+    try {
+      const content = textDecoder.decode(await vscode.workspace.fs.readFile(uri));
+      return { uri, helpers: getTestHelpers(parseSource(uri, content), uri) };
+    } catch {
+      // not this one
+    }
   }
+
+  return undefined;
 };
 
 export class TestFile {
   public hasBeenRead = false;
 
+  /**
+   * Incremented on each update, so that an update that finishes reading the
+   * imported helpers after a later one doesn't overwrite its tests.
+   */
+  private revision = 0;
+
+  /**
+   * Files the tests were last read with helpers from.
+   */
+  private helperFiles: string[] = [];
+
   constructor(
     public readonly uri: vscode.Uri,
     public readonly workspaceFolder: vscode.WorkspaceFolder
@@ -62,6 +162,23 @@ export class TestFile {
     return this.uri.toString().toLowerCase();
   }
 
+  private setHelperFiles(files: string[]) {
+    const spec = this.uri.toString();
+    for (const file of this.helperFiles) {
+      const dependents = helperDependents.get(file);
+      dependents?.delete(spec);
+      if (!dependents?.size) {
+        helperDependents.delete(file);
+      }
+    }
+
+    for (const file of files) {
+      helperDependents.set(file, (helperDependents.get(file) ?? new Set()).add(spec));
+    }
+
+    this.helperFiles = files;
+  }
+
   public getLabel() {
     return this.uri.fsPath.split("\\").pop()!;
   }
@@ -70,7 +187,7 @@ export class TestFile {
     try {
       const content = await getContentFromFilesystem(item.uri!);
       item.error = undefined;
-      this.updateFromContents(controller, content, item);
+      await this.updateFromContents(controller, content, item);
     } catch (e) {
       item.error = (e as Error).stack;
     }
@@ -79,37 +196,68 @@ export class TestFile {
   /**
    * Refreshes all tests in this file, `sourceReader` provided by the root.
    */
-  public updateFromContents(
+  public async updateFromContents(
     controller: vscode.TestController,
     content: string,
     file: vscode.TestItem
   ) {
+    const revision = ++this.revision;
     try {
       const diagnostics: vscode.Diagnostic[] = [];
-      const ast = ts.createSourceFile(
-        this.uri.path.split('/').pop()!,
-        content,
-        ts.ScriptTarget.ESNext,
-        false,
-        ts.ScriptKind.TS
-      );
+      const ast = parseSource(this.uri, content);
+      const fileHelpers = getTestHelpers(ast);
+      const { helpers: importedHelpers, files } = await getImportedHelpers(this.uri, ast);
+      if (revision !== this.revision) {
+        return;
+      }
+
+      this.setHelperFiles(files.map(uri => uri.toString()));
+      const helpers = new Map([...importedHelpers, ...fileHelpers]);
+      const helperBodies = new Set([...fileHelpers.values()].map(h => h.body));
 
       const parents: { item: vscode.TestItem; children: vscode.TestItem[] }[] = [
         { item: file, children: [] }
       ];
-      const traverse = (node: ts.Node) => {
-        const parent = parents[parents.length - 1];
-        const childData = extractTestFromNode(ast, node, itemData.get(parent?.item)!);
-        if (childData === Action.Skip) {
-          return;
+      // bodies of helpers called in the file, whose tests are declared by the calls
+      const expanded = new Set<ts.Node>();
+      // bodies of helpers reached before knowing whether they're called
+      const deferred: { node: ts.Node; scope?: ITestScope; parents: typeof parents }[] = [];
+      let deferring = true;
+      // suites whose children are replaced once the deferred bodies are read
+      const suites: typeof parents = [];
+      const traverse = (node: ts.Node, scope?: ITestScope) => {
+        // tests in a helper are declared where it's called, not where it's declared
+        const helper = scope?.calls?.[scope.calls.length - 1];
+        if (helperBodies.has(node) && helper?.body !== node) {
+          if (deferring) {
+            deferred.push({ node, scope, parents: [...parents] });
+            return;
+          } else if (expanded.has(node)) {
+            return;
+          }
         }
 
+        const src = helper?.src ?? ast;
+        const parent = parents[parents.length - 1];
+        const childData = extractTestFromNode(src, node, itemData.get(parent?.item)!, scope);
         if (childData === Action.Recurse) {
-          ts.forEachChild(node, traverse);
+          // tests declared for each row of a table are expanded per row
+          const table = extractTableRows(src, node, scope);
+          // helpers in this file can call those it imports, too
+          const call =
+            !table && extractHelperCall(src, node, helper?.uri ? helper.helpers : helpers, scope);
+          if (table) {
+            table.scopes.forEach(rowScope => traverse(table.body, rowScope));
+          } else if (call) {
+            expanded.add(call.helper.body);
+            traverse(call.helper.body, call.scope);
+          } else {
+            ts.forEachChild(node, child => traverse(child, scope));
+          }
           return;
         }
 
-        const id = `${childData.fullName}`.toLowerCase();
+        const id = childData.fullName;
 
         // Skip duplicated tests. They won't run correctly with the way
         // mocha reports them, and will error if we try to insert them.
@@ -128,25 +276,42 @@ export class TestFile {
             ),
           ];
 
-          diagnostics.push(diagnostic);
+          if (!helper?.uri) {
+            diagnostics.push(diagnostic);
+          }
           return;
         }
 
-        const item = controller.createTestItem(id, childData.name, file.uri);
+        const item = controller.createTestItem(id, childData.name, helper?.uri ?? file.uri);
         itemData.set(item, childData);
         item.range = childData.range;
+        item.tags = childData.tags;
         if (parent) {
           parent.children.push(item);
         }
 
         if (childData instanceof TestSuite) {
           parents.push({ item: item, children: [] });
-          ts.forEachChild(node, traverse);
-          item.children.replace(parents.pop()!.children);
+          ts.forEachChild(node, child => traverse(child, scope && { ...scope, row: undefined }));
+          suites.push(parents.pop()!);
         }
       };
 
-      ts.forEachChild(ast, traverse);
+      ts.forEachChild(ast, child => traverse(child));
+
+      // helpers that are never called are read like any other code
+      deferring = false;
+      for (const { node, scope, parents: stack } of deferred) {
+        if (!expanded.has(node)) {
+          parents.splice(0, parents.length, ...stack);
+          traverse(node, scope);
+        }
+      }
+
+      for (const { item, children } of suites) {
+        item.children.replace(children);
+      }
+
       file.error = undefined;
       file.children.replace(parents[0].children);
       diagnosticCollection.set(this.uri, diagnostics.length ? diagnostics : undefined);
@@ -157,15 +322,55 @@ export class TestFile {
   }
 }
 
+/**
+ * Gets the URI of the spec file a test is in. Tests declared in a helper
+ * imported from another file have the helper's URI, but belong to the spec
+ * file calling it.
+ */
+export const getSpecFileUri = (item: vscode.TestItem) => {
+  for (let p: vscode.TestItem | undefined = item; p; p = p.parent) {
+    const data = itemData.get(p);
+    if (data instanceof TestFile) {
+      return data.uri;
+    }
+  }
+
+  return item.uri;
+};
+
 export abstract class TestConstruct {
   public fullName: string;
+  public readonly tags: readonly vscode.TestTag[];
+
+  /**
+   * Matches the full names reported for this test, when its name or its
+   * parent's couldn't be resolved statically.
+   */
+  public readonly pattern?: RegExp;
 
   constructor(
     public readonly name: string,
     public readonly range: vscode.Range,
-    parent?: TestConstruct
+    parent?: TestConstruct,
+    tags: readonly vscode.TestTag[] = [],
+    /**
+     * Regular expression source matching the name, if it isn't known exactly.
+     */
+    namePattern?: string
   ) {
     this.fullName = parent ? `${parent.fullName} ${name}` : name;
+    this.tags = parent ? [...new Set([...parent.tags, ...tags])] : tags;
+    if (namePattern !== undefined || parent?.pattern) {
+      const ownPattern = namePattern ?? escapeRe(name);
+      this.pattern = new RegExp(`^${parent ? `${parent.getNamePattern()} ` : ''}${ownPattern}$`);
+    }
+  }
+
+  /**
+   * Gets a regular expression source matching the full name.
+   */
+  public getNamePattern() {
+    return this.pattern ? this.pattern.source.slice(1, -1) : escapeRe(this.fullName);
   }
 }
 
@@ -173,4 +378,4 @@ export class TestSuite extends TestConstruct {}
 
 export class TestCase extends TestConstruct {}
 
-export type VSCodeTest = TestFile | TestSuite | TestCase;
+export type VSCodeTest = TestProject | TestFile | TestSuite | TestCase;
@@ -1,25 +1,60 @@
 import { ChildProcessWithoutNullStreams } from "child_process";
+import { promises as fs } from "fs";
 import { AddressInfo, createServer } from "net";
 import { spawn } from "node:child_process";
+import { tmpdir } from "os";
 import * as path from "path";
 import * as vscode from 'vscode';
+import { IAngularProject, readAngularProjects } from "./angularProjects";
+import { getSettings } from "./config";
 import { readFile } from "./fileReader";
-import { TestOutputScanner } from "./testOutputScanner";
+import { findKarmaConfig } from "./karmaConfig";
+import { getKarmaServer } from "./karmaServer";
+import { REPORTER_SOCKET_ENV, ReporterChannel } from "./reporterChannel";
+import { escapeRe } from "./sourceUtils";
+import { JestOutputScanner, KarmaServerScanner, TestOutputScanner } from "./testOutputScanner";
 import { TestCase, TestFile, TestSuite, itemData } from "./testTree";
 
-const escapeRe = (s: string) => s.replace(/[.*+\-?^${}()|[\]\\]/g, '\\$&');
 
-const ATTACH_CONFIG_NAME = 'Attach to VS Code';
 const DEBUG_TYPE = "pwa-chrome";
-
-export abstract class VSCodeTestRunner {  constructor(protected readonly workspace: vscode.WorkspaceFolder, protected readonly runProfileKind: vscode.TestRunProfileKind, protected readonly continuousMode?: boolean) {}
+const DEBUG_SESSION_NAME = "Debug Karma Tests";
+const DEBUG_LAUNCHER_NAME = "VSCodeDebugChrome";
+const JEST_DEBUG_SESSION_NAME = "Debug Jest Tests";
+
+/**
+ * How long the debugger keeps trying to attach to the Karma browser, which
+ * is only launched once the tests are built.
+ */
+const DEBUG_ATTACH_TIMEOUT = 5 * 60 * 1000;
+
+/**
+ * Splits the `command` setting into the command and its arguments. npm only
+ * passes the arguments after `--` on to the script, so it's added to npm
+ * commands that don't have it yet.
+ */
+const splitCommand = (command: string) => {
+  const parts = command.trim().split(/\s+/);
+  return parts[0] === "npm" && !parts.includes("--") ? [...parts, "--"] : parts;
+};
+
+export abstract class VSCodeTestRunner {  constructor(protected readonly workspace: vscode.WorkspaceFolder, protected readonly runProfileKind: vscode.TestRunProfileKind, protected readonly continuousMode?: boolean, protected readonly project?: IAngularProject) {}
+
+  /**
+   * Settings of the workspace folder, read when the runner is created.
+   */
+  protected readonly settings = getSettings(this.workspace);
 
   public abstract run(baseArgs: ReadonlyArray<string>, filter?: ReadonlyArray<vscode.TestItem>): Promise<TestOutputScanner>;
   public abstract debug(baseArgs: ReadonlyArray<string>, filter?: ReadonlyArray<vscode.TestItem>): Promise<TestOutputScanner>;
   protected abstract prepareArgs(baseArgs: ReadonlyArray<string>, filter?: ReadonlyArray<vscode.TestItem>): Promise<string[]>;
 
+  /**
+   * Directory Istanbul JSON coverage is written to, set when a coverage run starts.
+   */
+  public coverageDir: string | undefined;
+
   protected findOpenPort() {
-    return new Promise((resolve, reject) => {
+    return new Promise<number>((resolve, reject) => {
       const server = createServer();
       server.listen(0, () => {
         const address = server.address() as AddressInfo;
@@ -33,146 +68,440 @@ export abstract class VSCodeTestRunner {  constructor(protected readonly workspa
       })
     })
   }
-}
 
+  protected getEnvironment(): NodeJS.ProcessEnv {
+    return {
+      ...process.env,
+      ...this.settings.env,
+    };
+  }
 
-export class AngularTestRunner extends VSCodeTestRunner {
-  public async run(baseArgs: ReadonlyArray<string>, filter?: ReadonlyArray<vscode.TestItem>) {
-    const args = await this.prepareArgs(baseArgs, filter);
-    const cp = spawn(args.join(" "), {
-      shell: true,
-      stdio: "pipe",
-      cwd: vscode.workspace.workspaceFolders![0].uri.fsPath
-    }) as ChildProcessWithoutNullStreams;
+  /**
+   * Starts a debug session for the given config, and stops it again once the
+   * test process exits. If `onReady` is given, it's called once a child
+   * session of the started one has finished attaching to its target, or
+   * else once the session ends or the process exits, so that nothing is
+   * left waiting for a debugger that won't come.
+   */
+  protected attachDebugger(
+    cp: ChildProcessWithoutNullStreams,
+    config: vscode.DebugConfiguration,
+    onReady?: () => void
+  ) {
+    let exited = false;
+    let rootSession: vscode.DebugSession | undefined;
+
+    const factory = onReady && vscode.debug.registerDebugAdapterTrackerFactory(config.type, {
+      createDebugAdapterTracker(session) {
+        if (!session.parentSession || session.parentSession !== rootSession) {
+          return;
+        }
+
+        let initRequestId: number | undefined;
+
+        return {
+          onDidSendMessage(message) {
+            if (message.type === 'response' && message.request_seq === initRequestId) {
+              onReady();
+            }
+          },
+          onWillReceiveMessage(message) {
+            if (initRequestId !== undefined) {
+              return;
+            }
+
+            if (message.command === 'launch' || message.command === 'attach') {
+              initRequestId = message.seq;
+            }
+          },
+        };
+      },
+    });
+
+    const listener = vscode.debug.onDidStartDebugSession(s => {
+      if (s.name === config.name && !rootSession) {
+        if (exited) {
+          vscode.debug.stopDebugging(s);
+        } else {
+          rootSession = s;
+        }
+      }
+    });
+
+    const terminateListener = vscode.debug.onDidTerminateDebugSession(s => {
+      if (s === rootSession) {
+        onReady?.();
+      }
+    });
+
+    cp.once("exit", () => {
+      exited = true;
+      listener.dispose();
+      terminateListener.dispose();
+      factory?.dispose();
+      onReady?.();
 
-    return new TestOutputScanner(cp, args);
+      if (rootSession) {
+        vscode.debug.stopDebugging(rootSession);
+      }
+    });
+
+    vscode.debug.startDebugging(this.workspace, config).then(started => {
+      // don't leave the test process waiting on a debugger that will never come
+      if (!started) {
+        onReady?.();
+      }
+    });
   }
+}
 
-  public async debug(baseArgs: ReadonlyArray<string>, filter?: ReadonlyArray<vscode.TestItem>) {
-    // const port = await this.findOpenPort();
-    const baseConfig = vscode.workspace.getConfiguration("launch", this.workspace)
-    .get<vscode.DebugConfiguration[]>("configurations", [])
-    .find(c => c.name === ATTACH_CONFIG_NAME);
+export class JestTestRunner extends VSCodeTestRunner {
+  /**
+   * Angular project whose test target runs Jest through a builder, such as
+   * `@angular-builders/jest`, which generates the Jest config. Its tests are
+   * run with `ng test`, which passes the Jest options on.
+   */
+  private builderProject?: IAngularProject;
 
-    if (!baseConfig) {
-      throw new Error(`Could not find launch config ${ATTACH_CONFIG_NAME}`);
+  public async run(baseArgs: ReadonlyArray<string>, filter?: ReadonlyArray<vscode.TestItem>) {
+    if (this.runProfileKind === vscode.TestRunProfileKind.Coverage) {
+      this.coverageDir = await fs.mkdtemp(path.join(tmpdir(), "vscode-jest-coverage-"));
     }
 
-    const server = this.createWaitServer();
+    this.builderProject = await this.findBuilderProject();
+    const resultsFile = this.getResultsFile();
+    const [command, ...commandArgs] = this.settings.command
+      ? splitCommand(this.settings.command)
+      : ["node", ...this.getJestCommand()];
+    const args = [...commandArgs, ...(await this.prepareArgs(baseArgs, filter)), `--outputFile=${resultsFile}`];
+    const cp = spawn(command, args, {
+      cwd: this.workspace.uri.fsPath,
+      env: this.getEnvironment(),
+      stdio: "pipe"
+    });
+
+    return new JestOutputScanner(cp, resultsFile, args);
+  }
+
+  public async debug(baseArgs: ReadonlyArray<string>, filter?: ReadonlyArray<vscode.TestItem>) {
+    const port = await this.findOpenPort();
+    this.builderProject = await this.findBuilderProject();
+    const resultsFile = this.getResultsFile();
     const args = [
+      `--inspect-brk=${port}`,
+      ...this.getJestCommand(),
+      "--runInBand",
       ...(await this.prepareArgs(baseArgs, filter)),
-      // `--remote-debugging-port=${port}`
+      `--outputFile=${resultsFile}`
     ];
-    const cp = spawn(args.join(" "), {
+    const cp = spawn("node", args, {
       cwd: this.workspace.uri.fsPath,
-      shell: true,
+      env: this.getEnvironment(),
       stdio: "pipe"
     });
 
-    const factory = vscode.debug.registerDebugAdapterTrackerFactory(DEBUG_TYPE, {
-            createDebugAdapterTracker(session) {
-              if (!session.parentSession || session.parentSession !== rootSession) {
-                return;
-              }
-      
-              let initRequestId: number | undefined;
-      
-              return {
-                onDidSendMessage(message) {
-                  if (message.type === 'response' && message.request_seq === initRequestId) {
-                    server.ready();
-                  }
-                },
-                onWillReceiveMessage(message) {
-                  if (initRequestId !== undefined) {
-                    return;
-                  }
-      
-                  if (message.command === 'launch' || message.command === 'attach') {
-                    initRequestId = message.seq;
-                  }
-                },
-              };
-            },
-          });
-      
-          // vscode.debug.startDebugging(this.workspace, { ...baseConfig, port });
-      
-          let exited = false;
-          let rootSession: vscode.DebugSession | undefined;
-          cp.once('exit', () => {
-            exited = true;
-            server.dispose();
-            listener.dispose();
-            factory.dispose();
-      
-            if (rootSession) {
-              vscode.debug.stopDebugging(rootSession);
-            }
-          });
-      
-          const listener = vscode.debug.onDidStartDebugSession(s => {
-            if (s.name === ATTACH_CONFIG_NAME && !rootSession) {
-              if (exited) {
-                vscode.debug.stopDebugging(rootSession);
-              } else {
-                rootSession = s;
-              }
-            }
-          });
-      
-          return new TestOutputScanner(cp, args);
+    this.attachDebugger(cp, {
+      type: "pwa-node",
+      request: "attach",
+      name: JEST_DEBUG_SESSION_NAME,
+      port,
+      continueOnAttach: true,
+      skipFiles: ["<node_internals>/**"]
+    });
+
+    return new JestOutputScanner(cp, resultsFile, args);
+  }
+
+  /**
+   * Returns the arguments passed to the Jest CLI, not including the binary.
+   */
+  protected async prepareArgs(baseArgs: readonly string[], filter?: readonly vscode.TestItem[] | undefined): Promise<string[]> {
+    const args = [
+      ...baseArgs,
+      "--json",
+      ...(this.coverageDir ? ["--coverage", "--coverageReporters=json", `--coverageDirectory=${this.coverageDir}`] : [])
+    ];
+
+    if (!filter) {
+      return args;
+    }
+
+    const namePatterns: string[] = [];
+    const runPaths = new Set<string>();
+    for (const test of filter) {
+      const data = itemData.get(test);
+      if (data instanceof TestCase || data instanceof TestSuite) {
+        namePatterns.push(data.getNamePattern() + (data instanceof TestCase ? "$" : " "));
+        for (let p = test.parent; p; p = p.parent) {
+          const parentData = itemData.get(p);
+          if (parentData instanceof TestFile) {
+            runPaths.add(escapeRe(parentData.uri.fsPath));
+          }
+        }
+      } else if (data instanceof TestFile) {
+        runPaths.add(escapeRe(data.uri.fsPath));
+      }
+    }
+
+    if (namePatterns.length) {
+      args.push(`--testNamePattern=^(${namePatterns.join("|")})`);
+    }
+
+    // `ng test` takes the project as its positional argument
+    if (this.builderProject && runPaths.size) {
+      args.push(`--testPathPattern=(${[...runPaths].join("|")})`);
+    } else {
+      args.push(...runPaths);
+    }
+    return args;
+  }
+
+  /**
+   * Gets the script that runs Jest, and its arguments.
+   */
+  private getJestCommand() {
+    const modules = path.join(this.workspace.uri.fsPath, "node_modules");
+    return this.builderProject
+      ? [path.join(modules, "@angular", "cli", "bin", "ng.js"), "test", this.builderProject.name]
+      : [path.join(modules, "jest", "bin", "jest.js")];
+  }
+
+  private async findBuilderProject() {
+    const projects = await readAngularProjects(this.workspace);
+    return projects.find(p => p.builder?.includes("jest") && (!this.project || p.name === this.project.name));
+  }
+
+  private getResultsFile() {
+    return path.join(tmpdir(), `vscode-jest-results-${process.pid}-${Date.now()}.json`);
+  }
+}
+
+
+export class AngularTestRunner extends VSCodeTestRunner {
+  /**
+   * Karma config to run with instead of the workspace's own, used when
+   * debugging or collecting coverage.
+   */
+  protected configOverride?: string;
+
+  protected browsers = this.settings.browser;
+
+  /**
+   * Whether the test process keeps running and watching for changes.
+   */
+  protected watch = !!this.continuousMode;
+
+  /**
+   * Channel the reporter of the next test process sends its events on.
+   */
+  protected reporterChannel?: ReporterChannel;
+
+  /**
+   * Whether the runner can build only some spec files, see `getSpecFilter`.
+   */
+  protected readonly canIncludeFiles: boolean = true;
+
+  public async run(baseArgs: ReadonlyArray<string>, filter?: ReadonlyArray<vscode.TestItem>) {
+    if (this.settings.persistentServer && this.runProfileKind === vscode.TestRunProfileKind.Run && !this.continuousMode) {
+      try {
+        return await this.runOnServer(baseArgs, filter);
+      } catch (e) {
+        vscode.window.showWarningMessage(`Could not run the tests on a Karma server, starting a new process instead: ${(e as Error).message}`);
+      }
+    }
+
+    const { grep } = this.getSpecFilter(filter);
+    if (this.runProfileKind === vscode.TestRunProfileKind.Coverage) {
+      this.coverageDir = await fs.mkdtemp(path.join(tmpdir(), "vscode-karma-coverage-"));
+    }
+
+    const override = this.coverageDir || grep
+      ? await this.useConfigOverride({ coverageDir: this.coverageDir, grep })
+      : undefined;
+
+    const args = await this.prepareArgs(baseArgs, filter);
+    const channel = await this.openReporterChannel();
+    const cp = this.spawnTestProcess(args);
+    cp.once("exit", () => override?.dispose());
+
+    return new TestOutputScanner(cp, args, channel);
+  }
+
+  public async debug(baseArgs: ReadonlyArray<string>, filter?: ReadonlyArray<vscode.TestItem>) {
+    const port = await this.findOpenPort();
+    const server = this.createWaitServer();
+    const { grep } = this.getSpecFilter(filter);
+    const override = await this.useConfigOverride({ debugPort: port, waitPort: server.port, grep });
+    this.browsers = DEBUG_LAUNCHER_NAME;
+
+    const args = await this.prepareArgs(baseArgs, filter);
+    const channel = await this.openReporterChannel();
+    const cp = this.spawnTestProcess(args);
+    cp.once("exit", () => {
+      server.dispose();
+      override.dispose();
+    });
+
+    this.attachDebugger(cp, {
+      type: DEBUG_TYPE,
+      request: "attach",
+      name: DEBUG_SESSION_NAME,
+      port,
+      timeout: DEBUG_ATTACH_TIMEOUT,
+      webRoot: this.workspace.uri.fsPath,
+      sourceMaps: true,
+      sourceMapPathOverrides: {
+        "webpack:///./*": "${webRoot}/*",
+        "webpack:///src/*": "${webRoot}/src/*",
+        "webpack:///./~/*": "${webRoot}/node_modules/*",
+        "webpack:///*": "*"
+      }
+    }, server.ready);
+
+    return new TestOutputScanner(cp, args, channel);
   }
 
   protected async prepareArgs(baseArgs: readonly string[], filter?: readonly vscode.TestItem[] | undefined): Promise<string[]> {
     let args = [
       ...this.getDefaultArgs(),
-      "--",
+      this.project?.name,
       ...baseArgs,
       await this.getConfigName(),
       await this.getReporters(),
-      this.continuousMode ? "--watch" : "--no-watch",
-      "--browsers=ChromeHeadless",
+      this.watch ? "--watch" : "--no-watch",
+      this.getBrowsersArg(baseArgs),
       this.runProfileKind === vscode.TestRunProfileKind.Coverage ? "--code-coverage" : undefined
     ];
 
     args = args.filter(x => !!x);
 
-    if (!filter) {
-      return args as string[];
+    // Only the files containing the tests are built; the specs to run in
+    // them are picked by the grep pattern set in the karma config
+    for (const file of this.getSpecFilter(filter).files) {
+      args.push(`--include=${file}`);
     }
 
+    return args as string[];
+  }
+
+  /**
+   * Translates the tests to run into the spec files they're in, relative to
+   * the workspace folder, and a karma-jasmine grep pattern matching the full
+   * names of the specs to run. There's no pattern if whole files are run,
+   * unless `canIncludeFiles` is false. The pattern is wrapped in slashes, as
+   * karma-jasmine otherwise matches it literally.
+   */
+  protected getSpecFilter(filter?: readonly vscode.TestItem[], canIncludeFiles = this.canIncludeFiles) {
+    const files = new Set<string>();
+    const fileItems: vscode.TestItem[] = [];
     const grepRe: string[] = [];
-    const runPaths = new Set<string>();
-    const addTestFileRunPath = (data: TestFile) =>
-      runPaths.add(
-        path.relative(data.workspaceFolder.uri.fsPath, data.uri.fsPath).replace(/\\/g, '/')
-      );
-
-      for (const test of filter) {
-        const data = itemData.get(test);
-        if (data instanceof TestCase || data instanceof TestSuite) {
-          grepRe.push(escapeRe(data.fullName) + (data instanceof TestCase ? '$' : ' '));
-          for (let p = test.parent; p; p = p.parent) {
-            const parentData = itemData.get(p);
-            if (parentData instanceof TestFile) {
-              addTestFileRunPath(parentData);
-            }
+    const addPattern = (data: TestCase | TestSuite) =>
+      grepRe.push(data.getNamePattern() + (data instanceof TestCase ? "$" : " "));
+    const addFile = (data: TestFile) =>
+      files.add(path.relative(data.workspaceFolder.uri.fsPath, data.uri.fsPath).replace(/\\/g, "/"));
+
+    for (const test of filter ?? []) {
+      const data = itemData.get(test);
+      if (data instanceof TestCase || data instanceof TestSuite) {
+        addPattern(data);
+        for (let p = test.parent; p; p = p.parent) {
+          const parentData = itemData.get(p);
+          if (parentData instanceof TestFile) {
+            addFile(parentData);
           }
-        } else if (data instanceof TestFile) {
-          addTestFileRunPath(data);
         }
+      } else if (data instanceof TestFile) {
+        addFile(data);
+        fileItems.push(test);
       }
+    }
 
-      if (grepRe.length) {
-        args.push('--grep', `/^(${grepRe.join('|')})/`);
+    // Whole files run alongside single tests need to match the pattern too,
+    // as do all files when the runner can't pick which ones to build
+    if (grepRe.length || !canIncludeFiles) {
+      for (const file of fileItems) {
+        file.children.forEach(child => {
+          const childData = itemData.get(child);
+          if (childData instanceof TestCase || childData instanceof TestSuite) {
+            addPattern(childData);
+          }
+        });
       }
+    }
 
-      if (runPaths.size) {
-        args.push(...[...runPaths].flatMap(p => ['--run', p]));
-      }
+    return {
+      files: [...files],
+      grep: grepRe.length ? `/^(${grepRe.join("|")})/` : undefined,
+    };
+  }
+
+  /**
+   * Runs the tests on the Karma server kept running for the project,
+   * starting it first if needed. The server builds all spec files, so the
+   * tests to run are only picked by the grep pattern.
+   */
+  private async runOnServer(baseArgs: ReadonlyArray<string>, filter?: ReadonlyArray<vscode.TestItem>) {
+    const server = getKarmaServer(
+      this.workspace,
+      this.project?.name,
+      JSON.stringify([baseArgs, this.settings]),
+      () => this.startServer(baseArgs)
+    );
+
+    const { grep } = this.getSpecFilter(filter, false);
+    let args: string[] = [];
+    const cp = await server.schedule(port => {
+      const [command, ...commandArgs] = this.getKarmaBinary();
+      // the client args replace those of the previous run, so the
+      // grep is always passed, if only to clear it
+      args = [...commandArgs, "run", `--port=${port}`, "--", `--grep=${grep ?? ""}`];
+      return spawn(command, args, {
+        stdio: "pipe",
+        cwd: this.workspace.uri.fsPath,
+        env: this.getEnvironment()
+      });
+    });
+
+    return new KarmaServerScanner(cp, server.onOutput, server.onReporterEvent, args);
+  }
+
+  private async startServer(baseArgs: ReadonlyArray<string>) {
+    const port = await this.findOpenPort();
+    const override = await this.useConfigOverride({ port });
+    this.watch = true;
+
+    const args = await this.prepareArgs(baseArgs);
+    const channel = await this.openReporterChannel();
+    const cp = this.spawnTestProcess(args);
+    cp.once("exit", () => {
+      override.dispose();
+      channel?.dispose();
+    });
+
+    return { process: cp, port, channel };
+  }
 
-      return args as string[];
+  /**
+   * Opens a channel for the reporter of the next test process to send its
+   * events on. If that fails, the events are read from its output instead.
+   */
+  private async openReporterChannel() {
+    try {
+      this.reporterChannel = await ReporterChannel.open();
+    } catch (e) {
+      console.warn("Error opening the reporter channel", e);
+      this.reporterChannel = undefined;
+    }
+
+    return this.reporterChannel;
+  }
+
+  /**
+   * @override
+   */
+  protected getEnvironment(): NodeJS.ProcessEnv {
+    const env = super.getEnvironment();
+    return this.reporterChannel ? { ...env, [REPORTER_SOCKET_ENV]: this.reporterChannel.address } : env;
   }
 
   private createWaitServer() {
@@ -201,36 +530,78 @@ export class AngularTestRunner extends VSCodeTestRunner {
     };
   }
 
+  protected spawnTestProcess(args: string[]) {
+    return spawn(args.join(" "), {
+      shell: true,
+      stdio: "pipe",
+      cwd: this.workspace.uri.fsPath,
+      env: this.getEnvironment()
+    }) as ChildProcessWithoutNullStreams;
+  }
+
   private getDefaultArgs(): string[] {
-    return ["npm", "test"]
+    return splitCommand(this.settings.command ?? "npm test");
+  }
+
+  /**
+   * Writes a karma config extending the workspace's own with the given
+   * options, and runs the next test process with it.
+   */
+  protected async useConfigOverride(options: IKarmaConfigOverrideOptions) {
+    const override = await writeKarmaConfigOverride(this.workspace, await this.getConfigFile(), options);
+    this.configOverride = override.file;
+    return override;
+  }
+
+  /**
+   * Gets the command that runs the Karma CLI.
+   */
+  protected getKarmaCommand(): string[] {
+    return this.getKarmaBinary();
+  }
+
+  /**
+   * Gets the command that runs the workspace's Karma binary, regardless of
+   * the configured command, which may not pass `run` through to Karma.
+   */
+  private getKarmaBinary() {
+    return ["node", path.join(this.workspace.uri.fsPath, "node_modules", "karma", "bin", "karma")];
+  }
+
+  protected getConfigFile(): Promise<vscode.Uri | undefined> {
+    return findKarmaConfig(this.workspace, this.project);
+  }
+
+  /**
+   * Gets the `--browsers` argument, unless the profile passed its own.
+   */
+  protected getBrowsersArg(baseArgs: readonly string[]) {
+    return baseArgs.some(a => a.startsWith("--browsers")) ? undefined : `--browsers=${this.browsers}`;
   }
 
   private async getConfigName(): Promise<string> {
-    let files = await vscode.workspace.findFiles("karma.conf.ts");
-    if (!files || !files.length) {
-      files = await vscode.workspace.findFiles("karma.conf.js");
+    if (this.configOverride) {
+      return `--karma-config=${this.configOverride}`;
     }
-    if (!files || !files.length) {
+
+    const file = await this.getConfigFile();
+    if (!file) {
       return "";
     }
 
-    const fileParts = files[0].path.split('/');
-    const fileName = fileParts[fileParts.length - 1];
+    const fileName = path.relative(this.workspace.uri.fsPath, file.fsPath).replace(/\\/g, '/');
 
     const arg = `--karma-config=${fileName}`;
     return arg;
   }
 
-  private async getReporters(): Promise<string> {
-    let files = await vscode.workspace.findFiles("karma.conf.ts");
-    if (!files || !files.length) {
-      files = await vscode.workspace.findFiles("karma.conf.js");
-    }
-    if (!files || !files.length) {
+  protected async getReporters(): Promise<string> {
+    const file = await this.getConfigFile();
+    if (!file) {
       return "";
     }
 
-    const content = await readFile(files[0]);
+    const content = await readFile(file);
     if (!content || !content.length) {
       return "";
     }
@@ -251,6 +622,197 @@ export class AngularTestRunner extends VSCodeTestRunner {
     return "";
   }
 }
+/**
+ * Runs Karma directly, for projects that don't go through the Angular CLI.
+ */
+export class KarmaTestRunner extends AngularTestRunner {
+  /**
+   * @override
+   */
+  protected readonly canIncludeFiles = false;
+
+  /**
+   * @override Karma has no way to select files from the command line, so the
+   * specs to run are only picked by the grep pattern set in the karma config.
+   */
+  protected async prepareArgs(baseArgs: readonly string[]): Promise<string[]> {
+    const configFile = await this.getConfigFile();
+    const args = [
+      ...this.getKarmaCommand(),
+      "start",
+      this.configOverride ?? configFile?.fsPath,
+      ...baseArgs,
+      await this.getReporters(),
+      this.watch ? "--no-single-run" : "--single-run",
+      this.getBrowsersArg(baseArgs)
+    ].filter((x): x is string => !!x);
+
+    return args;
+  }
+
+  /**
+   * @override
+   */
+  protected getKarmaCommand(): string[] {
+    return this.settings.command ? splitCommand(this.settings.command) : super.getKarmaCommand();
+  }
+
+  /**
+   * @override Arguments are passed as-is rather than through a shell, so
+   * that paths don't need to be quoted.
+   */
+  protected spawnTestProcess(args: string[]) {
+    return spawn(args[0], args.slice(1), {
+      stdio: "pipe",
+      cwd: this.workspace.uri.fsPath,
+      env: this.getEnvironment()
+    });
+  }
+}
+
+interface IKarmaConfigOverrideOptions {
+  /**
+   * Port to expose on the launched Chrome for the debugger to attach to.
+   */
+  debugPort?: number;
+  /**
+   * Port of a wait server that specs are held on until the debugger is attached.
+   */
+  waitPort?: number;
+  /**
+   * Directory to write Istanbul's `coverage-final.json` to.
+   */
+  coverageDir?: string;
+  /**
+   * Pattern karma-jasmine runs only the specs matching.
+   */
+  grep?: string;
+  /**
+   * Port for the Karma server to listen on, so that runs can be triggered on it.
+   */
+  port?: number;
+}
+
+/**
+ * The config `ng generate config karma` creates, used as the base for
+ * Angular projects that rely on the builder's built-in config.
+ */
+const defaultAngularKarmaConfig = `function (config) {
+  config.set({
+    basePath: "",
+    frameworks: ["jasmine", "@angular-devkit/build-angular"],
+    plugins: [
+      "karma-jasmine",
+      "karma-chrome-launcher",
+      "karma-jasmine-html-reporter",
+      "karma-coverage",
+      "@angular-devkit/build-angular/plugins/karma",
+    ],
+    client: { jasmine: {}, clearContext: false },
+    jasmineHtmlReporter: { suppressAll: true },
+    coverageReporter: { subdir: ".", reporters: [{ type: "html" }, { type: "text-summary" }] },
+    reporters: ["progress", "kjhtml"],
+    browsers: ["Chrome"],
+    restartOnFileChange: true,
+  });
+}`;
+
+/**
+ * Writes a karma config that extends the workspace's config. When debugging,
+ * it adds a Chrome launcher exposing a remote debugging port, and prepends a
+ * script to the served files which blocks until the `waitPort` server releases
+ * it, so that specs don't start running before the debugger has attached.
+ * When collecting coverage, it adds a `json` coverage reporter, and when
+ * running some tests only, passes karma-jasmine the pattern to pick them by.
+ * A server that is kept running is given a fixed port.
+ */
+async function writeKarmaConfigOverride(
+  workspace: vscode.WorkspaceFolder,
+  configFile: vscode.Uri | undefined,
+  options: IKarmaConfigOverrideOptions
+) {
+  const dir = await fs.mkdtemp(path.join(tmpdir(), "vscode-karma-config-"));
+  const file = path.join(dir, "karma.conf.js");
+  const overrides: string[] = [];
+
+  if (options.waitPort !== undefined) {
+    const waitScript = path.join(dir, "wait-for-debugger.js");
+    await fs.writeFile(waitScript, `(function () {
+  try {
+    var xhr = new XMLHttpRequest();
+    xhr.open("GET", "http://127.0.0.1:${options.waitPort}/", false);
+    xhr.send();
+  } catch (e) {
+    // the wait server closes the connection without a response
+  }
+})();
+`);
+    overrides.push(`files: [{ pattern: ${JSON.stringify(waitScript)}, included: true, watched: false }, ...(config.files || [])],`);
+  }
+
+  if (options.debugPort !== undefined) {
+    overrides.push(`browsers: [${JSON.stringify(DEBUG_LAUNCHER_NAME)}],
+    customLaunchers: {
+      ...config.customLaunchers,
+      ${JSON.stringify(DEBUG_LAUNCHER_NAME)}: {
+        base: "ChromeHeadless",
+        flags: ["--remote-debugging-port=${options.debugPort}"],
+      },
+    },`);
+  }
+
+  if (options.grep !== undefined) {
+    overrides.push(`client: {
+      ...config.client,
+      args: [...((config.client && config.client.args) || []), ${JSON.stringify(`--grep=${options.grep}`)}],
+    },`);
+  }
+
+  if (options.port !== undefined) {
+    overrides.push(`port: ${options.port},`);
+  }
+
+  if (options.coverageDir !== undefined) {
+    overrides.push(`coverageReporter: {
+      ...config.coverageReporter,
+      reporters: [
+        ...((config.coverageReporter && config.coverageReporter.reporters) || []),
+        { type: "json", dir: ${JSON.stringify(options.coverageDir)}, subdir: "." },
+      ],
+    },`);
+  }
+
+  // Karma resolves a relative basePath against the config file's directory,
+  // which is now the temporary one, so it's resolved against the base's
+  const baseDir = configFile ? path.dirname(configFile.fsPath) : workspace.uri.fsPath;
+  overrides.push(`basePath: require("path").resolve(${JSON.stringify(baseDir)}, config.basePath || ""),`);
+
+  let base: string;
+  if (!configFile) {
+    base = `const base = ${defaultAngularKarmaConfig};`;
+  } else {
+    const register = configFile.fsPath.endsWith(".ts")
+      ? `require(require.resolve("ts-node", { paths: [${JSON.stringify(workspace.uri.fsPath)}] })).register({ transpileOnly: true });\n`
+      : "";
+    base = `${register}const base = require(${JSON.stringify(configFile.fsPath)});`;
+  }
+
+  await fs.writeFile(file, `${base}
+
+module.exports = function (config) {
+  (base.default || base)(config);
+  config.set({
+    ${overrides.join("\n    ")}
+  });
+};
+`);
+
+  return {
+    file,
+    dispose: () => fs.rm(dir, { recursive: true, force: true }).catch(() => undefined),
+  };
+}
+
 // export abstract class VSCodeTestRunner {
 //   private prepareArguments(
 //     baseArgs: ReadonlyArray<string>,